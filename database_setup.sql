@@ -140,6 +140,13 @@ CREATE TABLE IF NOT EXISTS user_problem_progress (
     PRIMARY KEY (user_id, problem_id)
 );
 
+-- Keep updated_at current so clients can detect edits from another device
+DROP TRIGGER IF EXISTS update_user_problem_progress_updated_at ON user_problem_progress;
+CREATE TRIGGER update_user_problem_progress_updated_at
+    BEFORE UPDATE ON user_problem_progress
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
 -- Indexes for performance
 CREATE INDEX IF NOT EXISTS idx_upp_user_id ON user_problem_progress(user_id);
 CREATE INDEX IF NOT EXISTS idx_upp_problem_id ON user_problem_progress(problem_id);
@@ -180,3 +187,907 @@ CREATE POLICY IF NOT EXISTS problems_read_admin_owned ON problems
 
 -- Note: Existing INSERT/UPDATE/DELETE policies remain unchanged, so only the owner
 -- (typically the admin account) can modify categories/problems they created.
+
+-- =========================================================
+-- Realtime
+-- =========================================================
+
+-- Each write carries the id of the browser tab that made it, so a client can
+-- ignore realtime echoes of its own changes
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS client_id TEXT;
+ALTER TABLE problems ADD COLUMN IF NOT EXISTS client_id TEXT;
+ALTER TABLE user_problem_progress ADD COLUMN IF NOT EXISTS client_id TEXT;
+
+-- Include the full old row in DELETE events so subscribers know which user's progress went away
+ALTER TABLE user_problem_progress REPLICA IDENTITY FULL;
+
+-- Broadcast row changes on these tables to subscribed clients. A table can only be
+-- added once, so skip those already in the publication when the script is re-run.
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY['categories', 'problems', 'user_problem_progress'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', v_table);
+        END IF;
+    END LOOP;
+END;
+$$;
+
+
+-- =========================================================
+-- Catalogs and roles
+-- =========================================================
+
+-- Categories and problems belong to a catalog rather than to the admin who created
+-- them, so several people can maintain one catalog. Members have a role:
+--   owner  - everything, including deleting categories and managing members
+--   editor - create and change categories and problems, but not delete categories
+--   viewer - read only (plus their own progress, like everyone else)
+CREATE TABLE IF NOT EXISTS catalogs (
+    id TEXT PRIMARY KEY,
+    title TEXT NOT NULL,
+    -- Public catalogs can be read by anyone, including visitors who are not signed in
+    is_public BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS catalog_members (
+    catalog_id TEXT REFERENCES catalogs(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (catalog_id, user_id)
+);
+
+DROP TRIGGER IF EXISTS update_catalogs_updated_at ON catalogs;
+CREATE TRIGGER update_catalogs_updated_at
+    BEFORE UPDATE ON catalogs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS catalog_id TEXT REFERENCES catalogs(id) ON DELETE CASCADE;
+ALTER TABLE problems ADD COLUMN IF NOT EXISTS catalog_id TEXT REFERENCES catalogs(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_catalog_members_user_id ON catalog_members(user_id);
+CREATE INDEX IF NOT EXISTS idx_categories_catalog_id ON categories(catalog_id);
+CREATE INDEX IF NOT EXISTS idx_problems_catalog_id ON problems(catalog_id);
+
+-- Move the existing admin-owned catalog into a shared one, with every admin as an owner
+INSERT INTO catalogs (id, title) VALUES ('default', 'Coding Problems')
+    ON CONFLICT (id) DO NOTHING;
+INSERT INTO catalog_members (catalog_id, user_id, role)
+    SELECT 'default', user_id, 'owner' FROM app_admins
+    ON CONFLICT (catalog_id, user_id) DO NOTHING;
+UPDATE categories SET catalog_id = 'default' WHERE catalog_id IS NULL;
+UPDATE problems SET catalog_id = 'default' WHERE catalog_id IS NULL;
+
+-- Progress kept on catalog rows belonged to the admin who created them; it now lives
+-- in user_problem_progress like everyone else's, so co-owners do not share checkmarks
+INSERT INTO user_problem_progress (user_id, problem_id, completed, note)
+    SELECT user_id, id, completed, note FROM problems
+    WHERE user_id IS NOT NULL AND (completed OR note IS NOT NULL)
+    ON CONFLICT (user_id, problem_id) DO NOTHING;
+
+-- The current user's role in a catalog, or NULL for non-members. SECURITY DEFINER so
+-- policies on catalog_members can call it without recursing into themselves.
+CREATE OR REPLACE FUNCTION catalog_role(p_catalog_id TEXT)
+RETURNS TEXT
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT role FROM catalog_members
+  WHERE catalog_id = p_catalog_id AND user_id = auth.uid();
+$$;
+
+CREATE OR REPLACE FUNCTION can_read_catalog(p_catalog_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public AS $$
+  SELECT EXISTS (SELECT 1 FROM catalogs WHERE id = p_catalog_id AND is_public)
+      OR catalog_role(p_catalog_id) IS NOT NULL;
+$$;
+
+CREATE OR REPLACE FUNCTION can_edit_catalog(p_catalog_id TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE AS $$
+  SELECT COALESCE(catalog_role(p_catalog_id) IN ('owner', 'editor'), FALSE);
+$$;
+
+ALTER TABLE catalogs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE catalog_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS catalogs_read ON catalogs;
+CREATE POLICY catalogs_read ON catalogs
+    FOR SELECT USING (can_read_catalog(id));
+
+DROP POLICY IF EXISTS catalogs_owner_update ON catalogs;
+CREATE POLICY catalogs_owner_update ON catalogs
+    FOR UPDATE USING (catalog_role(id) = 'owner');
+
+-- Members see who else is in their catalogs; only owners change membership
+DROP POLICY IF EXISTS catalog_members_read ON catalog_members;
+CREATE POLICY catalog_members_read ON catalog_members
+    FOR SELECT USING (user_id = auth.uid() OR catalog_role(catalog_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS catalog_members_owner_write ON catalog_members;
+CREATE POLICY catalog_members_owner_write ON catalog_members
+    FOR ALL
+    USING (catalog_role(catalog_id) = 'owner')
+    WITH CHECK (catalog_role(catalog_id) = 'owner');
+
+-- Catalog rows follow the catalog's roles instead of the row's creator
+DROP POLICY IF EXISTS "Users can view own categories" ON categories;
+DROP POLICY IF EXISTS "Users can insert own categories" ON categories;
+DROP POLICY IF EXISTS "Users can update own categories" ON categories;
+DROP POLICY IF EXISTS "Users can delete own categories" ON categories;
+DROP POLICY IF EXISTS categories_read_admin_owned ON categories;
+DROP POLICY IF EXISTS "Users can view own problems" ON problems;
+DROP POLICY IF EXISTS "Users can insert own problems" ON problems;
+DROP POLICY IF EXISTS "Users can update own problems" ON problems;
+DROP POLICY IF EXISTS "Users can delete own problems" ON problems;
+DROP POLICY IF EXISTS problems_read_admin_owned ON problems;
+
+DROP POLICY IF EXISTS categories_read ON categories;
+CREATE POLICY categories_read ON categories
+    FOR SELECT USING (can_read_catalog(catalog_id));
+
+DROP POLICY IF EXISTS categories_insert ON categories;
+CREATE POLICY categories_insert ON categories
+    FOR INSERT WITH CHECK (can_edit_catalog(catalog_id));
+
+DROP POLICY IF EXISTS categories_update ON categories;
+CREATE POLICY categories_update ON categories
+    FOR UPDATE
+    USING (can_edit_catalog(catalog_id))
+    WITH CHECK (can_edit_catalog(catalog_id));
+
+-- Deleting a category takes its problems with it, so only owners may
+DROP POLICY IF EXISTS categories_delete ON categories;
+CREATE POLICY categories_delete ON categories
+    FOR DELETE USING (catalog_role(catalog_id) = 'owner');
+
+DROP POLICY IF EXISTS problems_read ON problems;
+CREATE POLICY problems_read ON problems
+    FOR SELECT USING (can_read_catalog(catalog_id));
+
+DROP POLICY IF EXISTS problems_write ON problems;
+CREATE POLICY problems_write ON problems
+    FOR ALL
+    USING (can_edit_catalog(catalog_id))
+    WITH CHECK (can_edit_catalog(catalog_id));
+
+-- Owners can read the progress of people working through their catalogs
+DROP POLICY IF EXISTS upp_admin_read ON user_problem_progress;
+DROP POLICY IF EXISTS upp_owner_read ON user_problem_progress;
+CREATE POLICY upp_owner_read ON user_problem_progress
+    FOR SELECT
+    USING (
+        EXISTS (
+            SELECT 1 FROM problems p
+            WHERE p.id = user_problem_progress.problem_id
+                AND catalog_role(p.catalog_id) = 'owner'
+        )
+    );
+
+-- =========================================================
+-- Problem order
+-- =========================================================
+
+-- Position of a problem within its category, like order_index on categories. When the
+-- column is first added, existing problems start from the order the app used to show:
+-- by difficulty, then oldest first. Re-running the script leaves the order users set alone.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'problems' AND column_name = 'order_index'
+    ) THEN
+        ALTER TABLE problems ADD COLUMN order_index INTEGER NOT NULL DEFAULT 0;
+
+        UPDATE problems p SET order_index = ranked.position
+        FROM (
+            SELECT id, ROW_NUMBER() OVER (
+                PARTITION BY category_id
+                ORDER BY CASE difficulty WHEN 'Easy' THEN 0 WHEN 'Medium' THEN 1 ELSE 2 END, created_at
+            ) - 1 AS position
+            FROM problems
+        ) ranked
+        WHERE p.id = ranked.id;
+    END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_problems_order_index ON problems(category_id, order_index);
+
+-- =========================================================
+-- Topic tags
+-- =========================================================
+
+-- Tags such as 'two pointers' or 'DP on trees'. A problem has any number of tags and
+-- a tag spans any number of problems across categories; kept as an array on the problem
+-- so tag edits travel with the row through save_catalog and realtime.
+ALTER TABLE problems ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+CREATE INDEX IF NOT EXISTS idx_problems_tags ON problems USING GIN (tags);
+
+-- =========================================================
+-- Sub-categories
+-- =========================================================
+
+-- Categories nest to any depth. Deleting a category deletes its sub-categories (and
+-- with them their problems). order_index stays catalog-wide; siblings are shown in
+-- order_index order under their parent.
+ALTER TABLE categories ADD COLUMN IF NOT EXISTS parent_id TEXT REFERENCES categories(id) ON DELETE CASCADE;
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON categories(parent_id);
+
+-- A category's parent must be in the same catalog and must not be the category itself
+-- or one of its descendants
+CREATE OR REPLACE FUNCTION check_category_parent()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.parent_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM categories WHERE id = NEW.parent_id AND catalog_id IS NOT DISTINCT FROM NEW.catalog_id) THEN
+        RAISE EXCEPTION 'Parent category % is not in the same catalog', NEW.parent_id;
+    END IF;
+    IF EXISTS (
+        WITH RECURSIVE ancestors(id) AS (
+            SELECT NEW.parent_id
+            UNION
+            SELECT c.parent_id FROM categories c JOIN ancestors a ON c.id = a.id WHERE c.parent_id IS NOT NULL
+        )
+        SELECT 1 FROM ancestors WHERE id = NEW.id
+    ) THEN
+        RAISE EXCEPTION 'Category % cannot be nested inside itself', NEW.id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_category_parent ON categories;
+CREATE TRIGGER check_category_parent
+    BEFORE INSERT OR UPDATE OF parent_id ON categories
+    FOR EACH ROW
+    EXECUTE FUNCTION check_category_parent();
+
+-- =========================================================
+-- Atomic catalog writes
+-- =========================================================
+
+-- Applies a change set to one catalog in a single transaction: upserts categories,
+-- upserts problems, then deletes problems and categories. Only the keys present in an
+-- entry are written, so {"id", "order_index"} just moves a category (and with "parent_id"
+-- nests it under another one, or at the top level when null). A missing row is
+-- only inserted when its entry is complete (title and order_index for a category, title
+-- and category_id for a problem); a partial entry for a missing row was deleted
+-- elsewhere and is skipped. {"id", "category_id", "order_index"} moves a problem.
+-- Runs with the caller's rights, so the RLS policies above still apply; the role checks
+-- here raise early with a clear message, which rolls back the whole change set.
+-- An entry carrying base_updated_at is only applied while the row is still at that
+-- version; otherwise the current row is reported under "conflicts" and left alone.
+DROP FUNCTION IF EXISTS save_catalog(JSONB, JSONB, TEXT[], TEXT[], TEXT);
+CREATE OR REPLACE FUNCTION save_catalog(
+    p_catalog_id TEXT,
+    p_categories JSONB DEFAULT '[]'::jsonb,
+    p_problems JSONB DEFAULT '[]'::jsonb,
+    p_deleted_problem_ids TEXT[] DEFAULT '{}',
+    p_deleted_category_ids TEXT[] DEFAULT '{}',
+    p_client_id TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+AS $$
+DECLARE
+    v_user UUID := auth.uid();
+    v_role TEXT := catalog_role(p_catalog_id);
+    v_entry JSONB;
+    v_catalog TEXT;
+    v_version TIMESTAMP WITH TIME ZONE;
+    v_categories JSONB := '[]'::jsonb;
+    v_problems JSONB := '[]'::jsonb;
+    v_conflicts JSONB := '[]'::jsonb;
+BEGIN
+    IF v_user IS NULL THEN
+        RAISE EXCEPTION 'save_catalog requires a signed-in user' USING ERRCODE = '42501';
+    END IF;
+    IF v_role IS NULL OR v_role NOT IN ('owner', 'editor') THEN
+        RAISE EXCEPTION 'Only owners and editors can change catalog %', p_catalog_id USING ERRCODE = '42501';
+    END IF;
+    IF cardinality(p_deleted_category_ids) > 0 AND v_role <> 'owner' THEN
+        RAISE EXCEPTION 'Only owners can delete categories' USING ERRCODE = '42501';
+    END IF;
+
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_categories) LOOP
+        SELECT catalog_id INTO v_catalog FROM categories WHERE id = v_entry->>'id';
+        IF NOT FOUND AND NOT (v_entry ? 'title' AND v_entry ? 'order_index') THEN
+            CONTINUE;
+        ELSIF NOT FOUND THEN
+            INSERT INTO categories (id, title, order_index, parent_id, catalog_id, user_id, client_id)
+            VALUES (v_entry->>'id', v_entry->>'title', (v_entry->>'order_index')::INTEGER, v_entry->>'parent_id', p_catalog_id, v_user, p_client_id)
+            RETURNING updated_at INTO v_version;
+        ELSIF v_catalog IS DISTINCT FROM p_catalog_id THEN
+            RAISE EXCEPTION 'Category % belongs to another catalog', v_entry->>'id' USING ERRCODE = '42501';
+        ELSE
+            UPDATE categories SET
+                title = CASE WHEN v_entry ? 'title' THEN v_entry->>'title' ELSE title END,
+                order_index = CASE WHEN v_entry ? 'order_index' THEN (v_entry->>'order_index')::INTEGER ELSE order_index END,
+                parent_id = CASE WHEN v_entry ? 'parent_id' THEN v_entry->>'parent_id' ELSE parent_id END,
+                client_id = p_client_id
+            WHERE id = v_entry->>'id'
+                AND (NOT v_entry ? 'base_updated_at' OR updated_at = (v_entry->>'base_updated_at')::TIMESTAMP WITH TIME ZONE)
+            RETURNING updated_at INTO v_version;
+            IF NOT FOUND THEN
+                v_conflicts := v_conflicts || jsonb_build_object(
+                    'table', 'categories',
+                    'row', (SELECT to_jsonb(c) FROM categories c WHERE c.id = v_entry->>'id')
+                );
+                CONTINUE;
+            END IF;
+        END IF;
+        v_categories := v_categories || jsonb_build_object('id', v_entry->>'id', 'updated_at', v_version);
+    END LOOP;
+
+    FOR v_entry IN SELECT * FROM jsonb_array_elements(p_problems) LOOP
+        IF v_entry ? 'category_id' AND NOT EXISTS (
+            SELECT 1 FROM categories WHERE id = v_entry->>'category_id' AND catalog_id = p_catalog_id
+        ) THEN
+            RAISE EXCEPTION 'Category % is not in catalog %', v_entry->>'category_id', p_catalog_id USING ERRCODE = '42501';
+        END IF;
+
+        SELECT catalog_id INTO v_catalog FROM problems WHERE id = v_entry->>'id';
+        IF NOT FOUND AND NOT (v_entry ? 'title' AND v_entry ? 'category_id') THEN
+            CONTINUE;
+        ELSIF NOT FOUND THEN
+            INSERT INTO problems (id, category_id, title, url, platform, external_id, difficulty, tags, order_index, catalog_id, user_id, client_id)
+            VALUES (
+                v_entry->>'id',
+                v_entry->>'category_id',
+                v_entry->>'title',
+                v_entry->>'url',
+                v_entry->>'platform',
+                v_entry->>'external_id',
+                v_entry->>'difficulty',
+                COALESCE(ARRAY(SELECT jsonb_array_elements_text(v_entry->'tags')), '{}'),
+                COALESCE((v_entry->>'order_index')::INTEGER, 0),
+                p_catalog_id,
+                v_user,
+                p_client_id
+            )
+            RETURNING updated_at INTO v_version;
+        ELSIF v_catalog IS DISTINCT FROM p_catalog_id THEN
+            RAISE EXCEPTION 'Problem % belongs to another catalog', v_entry->>'id' USING ERRCODE = '42501';
+        ELSE
+            UPDATE problems SET
+                category_id = CASE WHEN v_entry ? 'category_id' THEN v_entry->>'category_id' ELSE category_id END,
+                title = CASE WHEN v_entry ? 'title' THEN v_entry->>'title' ELSE title END,
+                url = CASE WHEN v_entry ? 'url' THEN v_entry->>'url' ELSE url END,
+                platform = CASE WHEN v_entry ? 'platform' THEN v_entry->>'platform' ELSE platform END,
+                external_id = CASE WHEN v_entry ? 'external_id' THEN v_entry->>'external_id' ELSE external_id END,
+                difficulty = CASE WHEN v_entry ? 'difficulty' THEN v_entry->>'difficulty' ELSE difficulty END,
+                tags = CASE WHEN v_entry ? 'tags' THEN ARRAY(SELECT jsonb_array_elements_text(v_entry->'tags')) ELSE tags END,
+                order_index = CASE WHEN v_entry ? 'order_index' THEN (v_entry->>'order_index')::INTEGER ELSE order_index END,
+                client_id = p_client_id
+            WHERE id = v_entry->>'id'
+                AND (NOT v_entry ? 'base_updated_at' OR updated_at = (v_entry->>'base_updated_at')::TIMESTAMP WITH TIME ZONE)
+            RETURNING updated_at INTO v_version;
+            IF NOT FOUND THEN
+                v_conflicts := v_conflicts || jsonb_build_object(
+                    'table', 'problems',
+                    'row', (SELECT to_jsonb(p) FROM problems p WHERE p.id = v_entry->>'id')
+                );
+                CONTINUE;
+            END IF;
+        END IF;
+        v_problems := v_problems || jsonb_build_object('id', v_entry->>'id', 'updated_at', v_version);
+    END LOOP;
+
+    IF EXISTS (SELECT 1 FROM problems WHERE id = ANY(p_deleted_problem_ids) AND catalog_id IS DISTINCT FROM p_catalog_id) THEN
+        RAISE EXCEPTION 'Cannot delete problems from another catalog' USING ERRCODE = '42501';
+    END IF;
+    DELETE FROM problems WHERE id = ANY(p_deleted_problem_ids);
+
+    IF EXISTS (SELECT 1 FROM categories WHERE id = ANY(p_deleted_category_ids) AND catalog_id IS DISTINCT FROM p_catalog_id) THEN
+        RAISE EXCEPTION 'Cannot delete categories from another catalog' USING ERRCODE = '42501';
+    END IF;
+    -- Problems go with their category through ON DELETE CASCADE
+    DELETE FROM categories WHERE id = ANY(p_deleted_category_ids);
+
+    RETURN jsonb_build_object('categories', v_categories, 'problems', v_problems, 'conflicts', v_conflicts);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION save_catalog(TEXT, JSONB, JSONB, TEXT[], TEXT[], TEXT) TO authenticated;
+
+-- =========================================================
+-- Problem status
+-- =========================================================
+
+-- Progress is a status rather than a done/not done flag. Which statuses count as done
+-- is a per-user display setting, so the server only stores the status itself. When the
+-- column is first added, existing progress is carried forward; after that the completed
+-- column is no longer read, so re-running the script leaves statuses users set alone.
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'user_problem_progress' AND column_name = 'status'
+    ) THEN
+        ALTER TABLE user_problem_progress ADD COLUMN status TEXT NOT NULL DEFAULT 'todo'
+            CHECK (status IN ('todo', 'attempted', 'solved', 'solved-with-hint', 'needs-revisit'));
+
+        UPDATE user_problem_progress SET status = 'solved' WHERE completed;
+    END IF;
+END;
+$$;
+
+-- =========================================================
+-- Attempt history
+-- =========================================================
+
+-- One row per attempt at a problem: when it was opened, when its status was changed
+-- and to what. Rows are only ever added; the app writes them through the sync queue.
+CREATE TABLE IF NOT EXISTS problem_attempts (
+    id TEXT PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    problem_id TEXT NOT NULL REFERENCES problems(id) ON DELETE CASCADE,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    ended_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    outcome TEXT NOT NULL CHECK (outcome IN ('todo', 'attempted', 'solved', 'solved-with-hint', 'needs-revisit')),
+    -- NULL when the problem was not opened from the app before the status changed
+    time_spent_seconds INTEGER CHECK (time_spent_seconds >= 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_problem_attempts_user_problem ON problem_attempts(user_id, problem_id, ended_at DESC);
+
+ALTER TABLE problem_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS problem_attempts_own_read ON problem_attempts;
+CREATE POLICY problem_attempts_own_read ON problem_attempts
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS problem_attempts_own_insert ON problem_attempts;
+CREATE POLICY problem_attempts_own_insert ON problem_attempts
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- =========================================================
+-- Revision schedule
+-- =========================================================
+
+-- Spaced-repetition state for a solved problem, written by the app as
+-- {"due": "YYYY-MM-DD", "intervalDays", "ease", "repetitions", "lastReviewedAt"}.
+-- Part of the user's progress row so it syncs and conflicts like status and note.
+ALTER TABLE user_problem_progress ADD COLUMN IF NOT EXISTS review JSONB;
+
+-- =========================================================
+-- Sheets and subscriptions
+-- =========================================================
+
+-- A catalog is shown to users as a sheet ("Blind 75", "DSA Basics"). Users subscribe
+-- to the sheets they work through and switch between them; membership roles still
+-- decide who may edit a sheet.
+ALTER TABLE catalogs ADD COLUMN IF NOT EXISTS description TEXT NOT NULL DEFAULT '';
+
+-- When the table is first created, everyone who was using the app before sheets existed
+-- keeps the catalog they had. Re-running the script does not subscribe people again to
+-- sheets they have since left.
+DO $$
+BEGIN
+    IF to_regclass('public.catalog_subscriptions') IS NULL THEN
+        CREATE TABLE catalog_subscriptions (
+            user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+            catalog_id TEXT REFERENCES catalogs(id) ON DELETE CASCADE,
+            created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+            PRIMARY KEY (user_id, catalog_id)
+        );
+
+        INSERT INTO catalog_subscriptions (user_id, catalog_id)
+            SELECT DISTINCT upp.user_id, p.catalog_id
+            FROM user_problem_progress upp JOIN problems p ON p.id = upp.problem_id
+            WHERE p.catalog_id IS NOT NULL
+            ON CONFLICT DO NOTHING;
+    END IF;
+END;
+$$;
+
+CREATE INDEX IF NOT EXISTS idx_catalog_subscriptions_user_id ON catalog_subscriptions(user_id);
+
+ALTER TABLE catalog_subscriptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS catalog_subscriptions_own ON catalog_subscriptions;
+CREATE POLICY catalog_subscriptions_own ON catalog_subscriptions
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (auth.uid() = user_id AND can_read_catalog(catalog_id));
+
+-- Admins create sheets; the creator becomes the sheet's owner in the same transaction.
+-- SECURITY DEFINER because nobody is an owner yet when the first member is added.
+CREATE OR REPLACE FUNCTION create_catalog(p_id TEXT, p_title TEXT, p_description TEXT, p_is_public BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF NOT is_admin() THEN
+        RAISE EXCEPTION 'Only admins can create sheets' USING ERRCODE = '42501';
+    END IF;
+    INSERT INTO catalogs (id, title, description, is_public, created_by)
+    VALUES (p_id, p_title, COALESCE(p_description, ''), p_is_public, auth.uid());
+    INSERT INTO catalog_members (catalog_id, user_id, role) VALUES (p_id, auth.uid(), 'owner');
+    INSERT INTO catalog_subscriptions (user_id, catalog_id) VALUES (auth.uid(), p_id)
+        ON CONFLICT DO NOTHING;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION create_catalog(TEXT, TEXT, TEXT, BOOLEAN) TO authenticated;
+
+-- =========================================================
+-- Personal problems
+-- =========================================================
+
+-- Anyone signed in can keep categories and problems of their own next to a sheet.
+-- Only their owner sees or changes them, so they sit in their own tables instead of
+-- going through catalog roles, and a personal problem's progress lives on its row
+-- rather than in user_problem_progress.
+CREATE TABLE IF NOT EXISTS personal_categories (
+    id TEXT PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    catalog_id TEXT NOT NULL REFERENCES catalogs(id) ON DELETE CASCADE,
+    parent_id TEXT REFERENCES personal_categories(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    order_index INTEGER NOT NULL DEFAULT 0,
+    client_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS personal_problems (
+    id TEXT PRIMARY KEY,
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+    catalog_id TEXT NOT NULL REFERENCES catalogs(id) ON DELETE CASCADE,
+    category_id TEXT NOT NULL REFERENCES personal_categories(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    url TEXT,
+    platform TEXT,
+    difficulty TEXT CHECK (difficulty IN ('Easy', 'Medium', 'Hard')),
+    tags TEXT[] NOT NULL DEFAULT '{}',
+    order_index INTEGER NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'todo'
+        CHECK (status IN ('todo', 'attempted', 'solved', 'solved-with-hint', 'needs-revisit')),
+    note TEXT,
+    review JSONB,
+    client_id TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_personal_categories_user_catalog ON personal_categories(user_id, catalog_id);
+CREATE INDEX IF NOT EXISTS idx_personal_problems_user_catalog ON personal_problems(user_id, catalog_id);
+CREATE INDEX IF NOT EXISTS idx_personal_problems_category_id ON personal_problems(category_id);
+
+DROP TRIGGER IF EXISTS update_personal_categories_updated_at ON personal_categories;
+CREATE TRIGGER update_personal_categories_updated_at
+    BEFORE UPDATE ON personal_categories
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_personal_problems_updated_at ON personal_problems;
+CREATE TRIGGER update_personal_problems_updated_at
+    BEFORE UPDATE ON personal_problems
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE personal_categories ENABLE ROW LEVEL SECURITY;
+ALTER TABLE personal_problems ENABLE ROW LEVEL SECURITY;
+
+-- Rows may only hang off the user's own categories, in a sheet they can read
+DROP POLICY IF EXISTS personal_categories_own ON personal_categories;
+CREATE POLICY personal_categories_own ON personal_categories
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND can_read_catalog(catalog_id)
+        AND (parent_id IS NULL OR EXISTS (
+            SELECT 1 FROM personal_categories parent
+            WHERE parent.id = personal_categories.parent_id AND parent.user_id = auth.uid() AND parent.catalog_id = personal_categories.catalog_id
+        ))
+    );
+
+DROP POLICY IF EXISTS personal_problems_own ON personal_problems;
+CREATE POLICY personal_problems_own ON personal_problems
+    FOR ALL
+    USING (auth.uid() = user_id)
+    WITH CHECK (
+        auth.uid() = user_id
+        AND EXISTS (
+            SELECT 1 FROM personal_categories c
+            WHERE c.id = personal_problems.category_id AND c.user_id = auth.uid() AND c.catalog_id = personal_problems.catalog_id
+        )
+    );
+
+-- Broadcast like the catalog tables, skipping any already in the publication
+DO $$
+DECLARE
+    v_table TEXT;
+BEGIN
+    FOREACH v_table IN ARRAY ARRAY['personal_categories', 'personal_problems'] LOOP
+        IF NOT EXISTS (
+            SELECT 1 FROM pg_publication_tables
+            WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = v_table
+        ) THEN
+            EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE %I', v_table);
+        END IF;
+    END LOOP;
+END;
+$$;
+
+-- Attempts can be at a personal problem as well, so problem_id no longer points at
+-- problems only; deleting either kind of problem clears its attempts instead
+ALTER TABLE problem_attempts DROP CONSTRAINT IF EXISTS problem_attempts_problem_id_fkey;
+
+-- SECURITY DEFINER: a deleted catalog problem takes everyone's attempts with it
+CREATE OR REPLACE FUNCTION delete_problem_attempts()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    DELETE FROM problem_attempts WHERE problem_id = OLD.id;
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_problems_attempts ON problems;
+CREATE TRIGGER delete_problems_attempts
+    AFTER DELETE ON problems
+    FOR EACH ROW
+    EXECUTE FUNCTION delete_problem_attempts();
+
+-- A personal problem's id is chosen by the client, so only its owner's attempts go
+-- with it; otherwise deleting a personal problem named like a catalog one would clear
+-- everyone's attempts at that catalog problem
+CREATE OR REPLACE FUNCTION delete_personal_problem_attempts()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    DELETE FROM problem_attempts WHERE problem_id = OLD.id AND user_id = OLD.user_id;
+    RETURN OLD;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS delete_personal_problems_attempts ON personal_problems;
+CREATE TRIGGER delete_personal_problems_attempts
+    AFTER DELETE ON personal_problems
+    FOR EACH ROW
+    EXECUTE FUNCTION delete_personal_problem_attempts();
+
+-- Attempts and progress are keyed by problem id alone, so a personal problem may not
+-- take the id of a catalog problem. SECURITY DEFINER to see catalogs the user cannot read.
+CREATE OR REPLACE FUNCTION reject_personal_problem_id_clash()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM problems WHERE id = NEW.id) THEN
+        RAISE EXCEPTION 'Problem id % is already taken', NEW.id USING ERRCODE = '23505';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS reject_personal_problem_id_clash ON personal_problems;
+CREATE TRIGGER reject_personal_problem_id_clash
+    BEFORE INSERT OR UPDATE OF id ON personal_problems
+    FOR EACH ROW
+    EXECUTE FUNCTION reject_personal_problem_id_clash();
+
+-- =========================================================
+-- Solution snippets
+-- =========================================================
+
+-- A user's own solutions to a problem, written by the app as a list of
+-- {"id", "language", "code", "timeComplexity", "spaceComplexity"}. Kept with the rest
+-- of their progress so they sync and conflict like notes; personal problems hold
+-- theirs on the problem row.
+ALTER TABLE user_problem_progress ADD COLUMN IF NOT EXISTS solutions JSONB NOT NULL DEFAULT '[]';
+ALTER TABLE personal_problems ADD COLUMN IF NOT EXISTS solutions JSONB NOT NULL DEFAULT '[]';
+
+-- =========================================================
+-- Note history
+-- =========================================================
+
+-- The note a user had before each change, so earlier versions can be compared and
+-- restored. Rows are only ever added, through the sync queue; problem_id may name a
+-- catalog or a personal problem.
+CREATE TABLE IF NOT EXISTS note_revisions (
+    id TEXT PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    problem_id TEXT NOT NULL,
+    note TEXT NOT NULL,
+    saved_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_note_revisions_user_problem ON note_revisions(user_id, problem_id, saved_at DESC);
+
+ALTER TABLE note_revisions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS note_revisions_own_read ON note_revisions;
+CREATE POLICY note_revisions_own_read ON note_revisions
+    FOR SELECT
+    USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS note_revisions_own_insert ON note_revisions;
+CREATE POLICY note_revisions_own_insert ON note_revisions
+    FOR INSERT
+    WITH CHECK (auth.uid() = user_id);
+
+-- Keep only the latest 50 versions of each user's note on a problem
+CREATE OR REPLACE FUNCTION trim_note_revisions()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    DELETE FROM note_revisions
+    WHERE user_id = NEW.user_id AND problem_id = NEW.problem_id AND id IN (
+        SELECT id FROM note_revisions
+        WHERE user_id = NEW.user_id AND problem_id = NEW.problem_id
+        ORDER BY saved_at DESC
+        OFFSET 50
+    );
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trim_note_revisions ON note_revisions;
+CREATE TRIGGER trim_note_revisions
+    AFTER INSERT ON note_revisions
+    FOR EACH ROW
+    EXECUTE FUNCTION trim_note_revisions();
+
+-- Deleting a problem clears its note history along with its attempts
+CREATE OR REPLACE FUNCTION delete_problem_attempts()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    DELETE FROM problem_attempts WHERE problem_id = OLD.id;
+    DELETE FROM note_revisions WHERE problem_id = OLD.id;
+    RETURN OLD;
+END;
+$$;
+
+-- A personal problem only ever has its owner's history
+CREATE OR REPLACE FUNCTION delete_personal_problem_attempts()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+BEGIN
+    DELETE FROM problem_attempts WHERE problem_id = OLD.id AND user_id = OLD.user_id;
+    DELETE FROM note_revisions WHERE problem_id = OLD.id AND user_id = OLD.user_id;
+    RETURN OLD;
+END;
+$$;
+
+-- =========================================================
+-- Duplicate problems
+-- =========================================================
+
+-- How far along a status is, so merging keeps the better of two
+CREATE OR REPLACE FUNCTION problem_status_rank(p_status TEXT)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE p_status
+      WHEN 'attempted' THEN 1
+      WHEN 'needs-revisit' THEN 2
+      WHEN 'solved-with-hint' THEN 3
+      WHEN 'solved' THEN 4
+      ELSE 0
+  END;
+$$;
+
+-- Folds duplicate problems into the one kept. Every user's progress on the others joins
+-- theirs on the kept problem: the furthest status, the kept schedule (or else a copy's),
+-- both notes and every solution, matching mergeProgress in src/duplicates.ts. Their
+-- attempts and note history move over, then the other problems are deleted.
+-- SECURITY DEFINER because it rewrites other users' progress, so the role check is
+-- done here. Returns the caller's new progress version on the kept problem.
+CREATE OR REPLACE FUNCTION merge_problems(p_keep_id TEXT, p_merged_ids TEXT[], p_client_id TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = public AS $$
+DECLARE
+    v_catalog TEXT;
+    v_row user_problem_progress%ROWTYPE;
+    v_version TIMESTAMP WITH TIME ZONE;
+BEGIN
+    SELECT catalog_id INTO v_catalog FROM problems WHERE id = p_keep_id;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Problem % does not exist', p_keep_id USING ERRCODE = 'P0002';
+    END IF;
+    IF NOT can_edit_catalog(v_catalog) THEN
+        RAISE EXCEPTION 'Only owners and editors can merge problems in catalog %', v_catalog USING ERRCODE = '42501';
+    END IF;
+    IF EXISTS (SELECT 1 FROM problems WHERE id = ANY(p_merged_ids) AND catalog_id IS DISTINCT FROM v_catalog) THEN
+        RAISE EXCEPTION 'Cannot merge problems from another catalog' USING ERRCODE = '42501';
+    END IF;
+    p_merged_ids := array_remove(p_merged_ids, p_keep_id);
+
+    -- In the order given, so notes are joined in the order the app shows them
+    FOR v_row IN
+        SELECT m.* FROM user_problem_progress m
+        JOIN unnest(p_merged_ids) WITH ORDINALITY AS merged(id, position) ON merged.id = m.problem_id
+        ORDER BY merged.position
+    LOOP
+        INSERT INTO user_problem_progress (user_id, problem_id, status, note, review, solutions, client_id)
+        VALUES (v_row.user_id, p_keep_id, v_row.status, v_row.note, v_row.review, v_row.solutions, p_client_id)
+        ON CONFLICT (user_id, problem_id) DO UPDATE SET
+            status = CASE
+                WHEN problem_status_rank(EXCLUDED.status) > problem_status_rank(user_problem_progress.status) THEN EXCLUDED.status
+                ELSE user_problem_progress.status
+            END,
+            review = COALESCE(user_problem_progress.review, EXCLUDED.review),
+            note = CASE
+                WHEN COALESCE(EXCLUDED.note, '') = '' OR EXCLUDED.note = user_problem_progress.note THEN user_problem_progress.note
+                WHEN COALESCE(user_problem_progress.note, '') = '' THEN EXCLUDED.note
+                ELSE user_problem_progress.note || E'\n\n---\n\n' || EXCLUDED.note
+            END,
+            solutions = user_problem_progress.solutions || COALESCE((
+                SELECT jsonb_agg(s) FROM jsonb_array_elements(EXCLUDED.solutions) s
+                WHERE NOT EXISTS (
+                    SELECT 1 FROM jsonb_array_elements(user_problem_progress.solutions) k WHERE k->>'id' = s->>'id'
+                )
+            ), '[]'::jsonb),
+            client_id = p_client_id;
+    END LOOP;
+
+    UPDATE problem_attempts SET problem_id = p_keep_id WHERE problem_id = ANY(p_merged_ids);
+    UPDATE note_revisions SET problem_id = p_keep_id WHERE problem_id = ANY(p_merged_ids);
+    -- Progress on the merged problems goes with them through ON DELETE CASCADE
+    DELETE FROM problems WHERE id = ANY(p_merged_ids);
+
+    SELECT updated_at INTO v_version FROM user_problem_progress WHERE user_id = auth.uid() AND problem_id = p_keep_id;
+    RETURN jsonb_build_object('progress_updated_at', v_version);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION merge_problems(TEXT, TEXT[], TEXT) TO authenticated;
+
+-- =========================================================
+-- External ids
+-- =========================================================
+
+-- The problem's id on its platform (e.g. 'leetcode:two-sum' or 'codeforces:1A'),
+-- suggested from its link when it is added. Optional, and not unique: duplicates are
+-- found by link.
+ALTER TABLE problems ADD COLUMN IF NOT EXISTS external_id TEXT;
+ALTER TABLE personal_problems ADD COLUMN IF NOT EXISTS external_id TEXT;
+
+-- =========================================================
+-- Progress per sheet
+-- =========================================================
+
+-- How many problems the user has in each status on every sheet they belong to or
+-- subscribe to, for the sheet picker. Which statuses count as done is a per-user display
+-- setting, so the counts stay per status. SECURITY INVOKER: RLS still decides what is read.
+CREATE OR REPLACE FUNCTION sheet_progress()
+RETURNS TABLE (sheet_id TEXT, problem_status TEXT, problem_count BIGINT)
+LANGUAGE sql STABLE SET search_path = public AS $$
+    WITH sheets AS (
+        SELECT s.catalog_id FROM catalog_subscriptions s WHERE s.user_id = auth.uid()
+        UNION
+        SELECT m.catalog_id FROM catalog_members m WHERE m.user_id = auth.uid()
+    )
+    SELECT p.catalog_id, COALESCE(upp.status, 'todo'), COUNT(*)
+    FROM problems p
+    JOIN sheets ON sheets.catalog_id = p.catalog_id
+    LEFT JOIN user_problem_progress upp ON upp.problem_id = p.id AND upp.user_id = auth.uid()
+    GROUP BY 1, 2
+    UNION ALL
+    SELECT pp.catalog_id, pp.status, COUNT(*)
+    FROM personal_problems pp
+    JOIN sheets ON sheets.catalog_id = pp.catalog_id
+    WHERE pp.user_id = auth.uid()
+    GROUP BY 1, 2;
+$$;
+
+GRANT EXECUTE ON FUNCTION sheet_progress() TO authenticated;
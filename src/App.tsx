@@ -1,22 +1,54 @@
-import { useEffect, useMemo, useState } from 'react';
-import { Category, Difficulty, Platform, Problem } from './types';
-import { loadData, saveData, onRemoteCategoriesChange, getIsAuthenticated, signInWithEmail, signUpWithEmail, signOut, onAuthChange, resetPassword, getIsAdminUser } from './storage';
-import { generateId, flattenProblems } from './utils';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Category, ConflictPolicy, Difficulty, Operation, Platform, Problem, ProblemStatus, SyncConflict } from './types';
+import { loadData, saveData, onRemoteCategoriesChange, getIsAuthenticated, signInWithEmail, signUpWithEmail, signOut, resetPassword, hasRemote, selectCatalog, getSyncState, onSyncStateChange, SyncState } from './storage';
+import { usePermissions, useSession } from './session';
+import { generateId, flattenProblems, hasTag, countCompleted, childCategories, subtreeIds, subtreeProblems } from './utils';
+import { getCountedStatuses, isDone, setCountedStatuses } from './status';
+import { finishAttempt, startAttempt } from './attempts';
+import { RECALL_QUALITY, RecallRating, dateKey, isDueForReview, reviewAfterStatusChange, scheduleReview } from './revision';
+import { applyRemoteChange } from './realtime';
+import { DuplicateMatch, duplicateGroups, findDuplicates, mergeProgress } from './duplicates';
+import { GuestMergeItem, buildGuestMergePreview, clearGuestProgress } from './guestProgress';
+import {
+	enqueueOperation,
+	flushOperations,
+	applyOperationToCategories,
+	applyPendingOperations,
+	applyLocalPatch,
+	diffProblem,
+	onLocalPatch,
+	onPendingConflictChange,
+	getPendingConflict,
+	resolvePendingConflict,
+	getConflictPolicy,
+	setConflictPolicy,
+	retryNow,
+	retryFailed,
+	discardFailed,
+} from './syncQueue';
 import { Controls } from './components/Controls';
 import { CategoryCard } from './components/CategoryCard';
+import { ConflictDialog } from './components/ConflictDialog';
+import { SyncStatus } from './components/SyncStatus';
+import { GuestMergeDialog } from './components/GuestMergeDialog';
+import { ProgressCounting } from './components/ProgressCounting';
+import { SheetPicker } from './components/SheetPicker';
+import { RevisionItem, RevisionQueue } from './components/RevisionQueue';
+import { DuplicatesReport } from './components/DuplicatesReport';
+import { CatalogTransfer } from './components/CatalogTransfer';
 
 export default function App() {
 	const [categories, setCategories] = useState<Category[]>([]);
 	const [loading, setLoading] = useState(true);
-	const [isAuthenticated, setIsAuthenticated] = useState(false);
-	const [isAdmin, setIsAdmin] = useState(false);
+	const session = useSession();
+	const isAuthenticated = session.user !== null;
+	const { canEditCatalog } = usePermissions();
 	const [authEmail, setAuthEmail] = useState('');
 	const [authPassword, setAuthPassword] = useState('');
 	const [showPassword, setShowPassword] = useState(false);
 	const [showAuthForm, setShowAuthForm] = useState(false);
 	const [isSignUp, setIsSignUp] = useState(false);
-	const [connectionStatus, setConnectionStatus] = useState<'connected' | 'disconnected' | 'error'>('connected');
-	const [isSaving, setIsSaving] = useState(false);
+	const [syncState, setSyncState] = useState<SyncState>(getSyncState());
 	
 	// Signup form fields
 	const [signupData, setSignupData] = useState({
@@ -30,7 +62,7 @@ export default function App() {
 
 	useEffect(() => {
 		(async () => {
-			const data = await loadData();
+			const data = applyPendingOperations(await loadData());
 			if (data.length) {
 				setCategories(data);
 			} else {
@@ -38,176 +70,204 @@ export default function App() {
 				setCategories([]);
 			}
 			setLoading(false);
+			offerGuestMerge(data);
 		})();
 
-		// Temporarily disable realtime subscription to prevent infinite loops
-		// TODO: Re-enable with proper debouncing when the save loop issue is resolved
-		/*
-		let cleanup: (() => void) | null = null;
-		const timeoutId = setTimeout(() => {
-			cleanup = onRemoteCategoriesChange(async () => {
-				console.log('Realtime update triggered', new Date().toISOString(), 'isSaving:', isSaving);
-				// Don't update if we're currently saving
-				if (isSaving) {
-					console.log('Skipping realtime update - currently saving');
-					return;
-				}
-				
-				// Add a small delay to avoid conflicts with immediate saves
-				setTimeout(async () => {
-					console.log('Loading latest data from realtime update');
-					const latest = await loadData();
-					setCategories(latest);
-				}, 500);
-			});
-		}, 2000);
-
-		return () => {
-			clearTimeout(timeoutId);
-			if (cleanup) {
-				cleanup();
-			}
-		};
-		*/
-	}, []);
-
-	// Check authentication status
-	useEffect(() => {
-		const off = onAuthChange((authed) => {
-			console.log('Auth state changed:', authed);
-			setIsAuthenticated(authed);
-			if (authed) {
-				getIsAdminUser().then(setIsAdmin).catch(() => setIsAdmin(false));
-			} else {
-				setIsAdmin(false);
-			}
+		// Live updates from other devices and tabs, patched into state row by row.
+		// Unsynced local operations are replayed on top so they are not clobbered.
+		const off = onRemoteCategoriesChange((change) => {
+			setCategories((prev) =>
+				applyPendingOperations(applyRemoteChange(prev, change))
+			);
 		});
 		return () => off();
 	}, []);
 
+	// Queued writes belong to the catalog on screen, so send them before switching
+	async function switchCatalog(catalogId: string) {
+		await flushOperations();
+		await selectCatalog(catalogId);
+	}
+
+	// Reload when the catalog changes (switching sheets, or signing in to one with a role)
+	const shownCatalogId = useRef(session.catalogId);
+	useEffect(() => {
+		const previous = shownCatalogId.current;
+		shownCatalogId.current = session.catalogId;
+		if (previous === null || previous === session.catalogId) return;
+		(async () => {
+			const data = applyPendingOperations(await loadData());
+			setCategories(data);
+		})();
+	}, [session.catalogId]);
+
 	const [search, setSearch] = useState('');
 	const [filterDifficulty, setFilterDifficulty] = useState<Difficulty | undefined>(undefined);
+	const [filterTag, setFilterTag] = useState<string | undefined>(undefined);
 
-	// Track the last saved state to prevent unnecessary saves
-	const [lastSavedState, setLastSavedState] = useState<string>('');
-
+	// Keep the local snapshot current; remote sync happens through the operation queue
 	useEffect(() => {
-		if (!loading && !isSaving) {
-			// Create a hash of the current state to compare with last saved
-			const currentStateHash = JSON.stringify(categories);
-			
-			// Only save if the state has actually changed
-			if (currentStateHash !== lastSavedState) {
-				setIsSaving(true);
-				saveData(categories)
-					.then(() => {
-						setIsSaving(false);
-						setLastSavedState(currentStateHash);
-					})
-					.catch((error) => {
-						console.error('Save error:', error);
-						setIsSaving(false);
-						// Update connection status based on save errors
-						if (error && error.message && error.message.includes('ERR_INSUFFICIENT_RESOURCES')) {
-							setConnectionStatus('error');
-							// Reset to connected after 5 seconds
-							setTimeout(() => setConnectionStatus('connected'), 5000);
-						}
-					});
-			}
+		if (!loading) {
+			saveData(categories);
 		}
-	}, [categories, loading, isSaving, lastSavedState]);
+	}, [categories, loading]);
+
+	useEffect(() => onSyncStateChange(setSyncState), []);
+
+	// Adopt versions and conflict outcomes reported by the sync queue
+	const [conflict, setConflict] = useState<SyncConflict | null>(getPendingConflict());
+	const [conflictPolicy, setConflictPolicyState] = useState<ConflictPolicy>(getConflictPolicy());
 
-	// Add beforeunload event listener to ensure data is saved before page refresh
+	useEffect(() => {
+		const offPatch = onLocalPatch((patch) => setCategories((prev) => applyLocalPatch(prev, patch)));
+		const offConflict = onPendingConflictChange(setConflict);
+		return () => {
+			offPatch();
+			offConflict();
+		};
+	}, []);
+
+	function changeConflictPolicy(policy: ConflictPolicy) {
+		setConflictPolicy(policy);
+		setConflictPolicyState(policy);
+	}
+
+	// Which statuses count towards the progress bars
+	const [countedStatuses, setCountedStatusesState] = useState<ProblemStatus[]>(getCountedStatuses());
+
+	function changeCountedStatuses(statuses: ProblemStatus[]) {
+		setCountedStatuses(statuses);
+		setCountedStatusesState(statuses);
+	}
+
+	const conflictTitle = useMemo(() => {
+		if (!conflict) return undefined;
+		const category = categories.find((c) => c.id === conflict.categoryId);
+		if (!conflict.problemId) return category?.title;
+		return category?.problems.find((p) => p.id === conflict.problemId)?.title;
+	}, [conflict, categories]);
+
+	// Give queued operations a last chance to reach the server before the page goes away
 	useEffect(() => {
 		const handleBeforeUnload = () => {
-			if (categories.length > 0) {
-				// Force save before unload
-				saveData(categories, true).catch(console.error);
-			}
+			flushOperations().catch(console.error);
 		};
 
 		window.addEventListener('beforeunload', handleBeforeUnload);
 		return () => window.removeEventListener('beforeunload', handleBeforeUnload);
-	}, [categories]);
+	}, []);
 
 	const progress = useMemo(() => {
 		const all = flattenProblems(categories);
-		const done = all.filter((p) => p.completed).length;
+		const done = countCompleted(all, countedStatuses);
 		const pct = all.length ? Math.round((done / all.length) * 100) : 0;
 		return { all: all.length, done, pct };
-	}, [categories]);
-
-	function createCategory(title: string) {
-		setIsSaving(true);
-		setCategories((prev) => {
-			const newCategories = [...prev, { id: generateId('c'), title, problems: [] }];
-			// Force immediate save for creating categories to ensure they persist
-			saveData(newCategories, true)
-				.then(() => {
-					setIsSaving(false);
-					setLastSavedState(JSON.stringify(newCategories));
-				})
-				.catch((error) => {
-					console.error('Save error:', error);
-					setIsSaving(false);
-				});
-			return newCategories;
+	}, [categories, countedStatuses]);
+
+	// Apply an operation locally and queue it for sync
+	function commit(op: Operation) {
+		setCategories((prev) => applyOperationToCategories(prev, op));
+		enqueueOperation(op);
+	}
+
+	// Operations on a personal category or its problems are stored apart from the catalog
+	function personalFlag(categoryId: string): { personal?: boolean } {
+		return categories.find((c) => c.id === categoryId)?.personal ? { personal: true } : {};
+	}
+
+	function createCategory(title: string, parentId: string | null, personal: boolean) {
+		commit({
+			type: 'createCategory',
+			categoryId: generateId('c'),
+			title,
+			orderIndex: categories.filter((c) => !!c.personal === personal).length,
+			parentId,
+			...(personal ? { personal } : {}),
 		});
 	}
 
 	function addProblem(categoryId: string, problem: Problem) {
 		console.log('Adding problem:', problem.title, new Date().toISOString());
-		setIsSaving(true);
-		setCategories((prev) => {
-			const newCategories = prev.map((c) => 
-				c.id === categoryId ? { ...c, problems: [...c.problems, problem] } : c
-			);
-			// Force immediate save for adding problems to ensure they persist
-			saveData(newCategories, true)
-				.then(() => {
-					console.log('Problem saved successfully:', problem.title);
-					setIsSaving(false);
-					setLastSavedState(JSON.stringify(newCategories));
-				})
-				.catch((error) => {
-					console.error('Save error:', error);
-					setIsSaving(false);
-				});
-			return newCategories;
-		});
+		const orderIndex = categories.find((c) => c.id === categoryId)?.problems.length ?? 0;
+		commit({ type: 'addProblem', categoryId, problem, orderIndex, ...personalFlag(categoryId) });
 	}
 
 	function updateProblem(categoryId: string, problemId: string, updater: (p: Problem) => Problem) {
-		setCategories((prev) =>
-			prev.map((c) =>
-				c.id !== categoryId
-					? c
-					: { ...c, problems: c.problems.map((p) => (p.id === problemId ? updater(p) : p)) }
-			)
-		);
+		const current = categories.find((c) => c.id === categoryId)?.problems.find((p) => p.id === problemId);
+		if (!current) return;
+		const changes = diffProblem(current, updater(current));
+		if (Object.keys(changes).length === 0) return;
+		commit({
+			type: 'updateProblem',
+			categoryId,
+			problemId,
+			changes,
+			baseVersion: current.updatedAt,
+			baseProgressVersion: current.progressUpdatedAt,
+			...personalFlag(categoryId),
+		});
+		// Keep the note being replaced so it can be compared and restored later
+		if (changes.note !== undefined && current.note) {
+			enqueueOperation({
+				type: 'recordNoteRevision',
+				revision: { id: generateId('nr'), problemId, note: current.note, savedAt: new Date().toISOString() },
+			});
+		}
+	}
+
+	// Every status change other than a reset closes an attempt in the history
+	function changeStatus(categoryId: string, problemId: string, status: ProblemStatus) {
+		updateProblem(categoryId, problemId, (p) => ({ ...p, status, review: reviewAfterStatusChange(p, status) }));
+		if (status !== 'todo') enqueueOperation({ type: 'recordAttempt', attempt: finishAttempt(problemId, status) });
+	}
+
+	function rateReview(categoryId: string, problemId: string, rating: RecallRating) {
+		updateProblem(categoryId, problemId, (p) => ({ ...p, review: scheduleReview(p.review, RECALL_QUALITY[rating]) }));
 	}
 
 	function deleteProblem(categoryId: string, problemId: string) {
-		setCategories((prev) =>
-			prev.map((c) => (c.id === categoryId ? { ...c, problems: c.problems.filter((p) => p.id !== problemId) } : c))
-		);
+		commit({ type: 'deleteProblem', categoryId, problemId, ...personalFlag(categoryId) });
 	}
 
 	function deleteCategory(categoryId: string) {
-		setCategories((prev) => prev.filter((c) => c.id !== categoryId));
+		commit({ type: 'deleteCategory', categoryId, ...personalFlag(categoryId) });
 	}
 
 	function updateCategory(categoryId: string, updates: Partial<Category>) {
-		setCategories((prev) =>
-			prev.map((c) => (c.id === categoryId ? { ...c, ...updates } : c))
+		if (updates.title === undefined) return;
+		const current = categories.find((c) => c.id === categoryId);
+		commit({ type: 'updateCategory', categoryId, changes: { title: updates.title }, baseVersion: current?.updatedAt, ...personalFlag(categoryId) });
+	}
+
+	// Offer to carry progress made before signing in over to the account
+	const [guestMerge, setGuestMerge] = useState<GuestMergeItem[]>([]);
+
+	async function offerGuestMerge(data: Category[]) {
+		if (!hasRemote() || !(await getIsAuthenticated())) return;
+		const items = buildGuestMergePreview(data);
+		if (items.length === 0) clearGuestProgress();
+		setGuestMerge(items);
+	}
+
+	function mergeGuestProgress() {
+		// Conditional writes: anything changed on the server meanwhile comes back as a conflict
+		guestMerge.forEach(({ categoryId, problemId, changes, baseVersion, baseProgressVersion }) =>
+			commit({ type: 'updateProblem', categoryId, problemId, changes, baseVersion, baseProgressVersion })
 		);
+		clearGuestProgress();
+		setGuestMerge([]);
+	}
+
+	function discardGuestProgress() {
+		clearGuestProgress();
+		setGuestMerge([]);
 	}
 
 	function randomPick() {
-		const all = flattenProblems(categories).filter((p) => !p.completed);
+		const all = flattenProblems(categories).filter((p) => !isDone(p, countedStatuses));
 		if (!all.length) return alert('All problems completed!');
 		const pick = all[Math.floor(Math.random() * all.length)];
+		startAttempt(pick.id);
 		window.open(pick.url, '_blank');
 	}
 
@@ -218,65 +278,126 @@ export default function App() {
 			problems: c.problems.filter((p) => {
 				const okSearch = !s || p.title.toLowerCase().includes(s);
 				const okDiff = !filterDifficulty || p.difficulty === filterDifficulty;
-				return okSearch && okDiff;
+				const okTag = !filterTag || hasTag(p, filterTag);
+				return okSearch && okDiff && okTag;
 			}),
 		}));
-	}, [categories, search, filterDifficulty]);
-
-	// Drag-and-drop: track which category index is being dragged
-	const [dragIndex, setDragIndex] = useState<number | null>(null);
-
-	function handleDragStart(index: number) {
-		return (e: React.DragEvent<HTMLDivElement>) => {
-			setDragIndex(index);
-			try {
-				e.dataTransfer.effectAllowed = 'move';
-				e.dataTransfer.setData('text/plain', String(index));
-				// Add visual feedback
-				if (e.currentTarget) {
-					e.currentTarget.style.opacity = '0.5';
-				}
-			} catch {}
-		};
+	}, [categories, search, filterDifficulty, filterTag]);
+
+	// Spaced repetition: solved problems whose review date has come, most overdue first
+	const [showRevision, setShowRevision] = useState(false);
+	const today = dateKey(new Date());
+	const dueForRevision = useMemo<RevisionItem[]>(
+		() =>
+			categories
+				.flatMap((category) => category.problems.filter((p) => isDueForReview(p, today)).map((problem) => ({ category, problem })))
+				.sort((a, b) => a.problem.review!.due.localeCompare(b.problem.review!.due)),
+		[categories, today]
+	);
+
+	// Catalog problems added more than once, for owners and editors to merge
+	const [showDuplicates, setShowDuplicates] = useState(false);
+	const duplicates = useMemo(() => duplicateGroups(categories), [categories]);
+
+	// Keep one problem of a duplicate set and fold the others into it
+	function mergeDuplicates(group: DuplicateMatch[], keepId: string) {
+		const keep = group.find((m) => m.problem.id === keepId);
+		if (!keep) return;
+		const others = group.filter((m) => m !== keep);
+		commit({
+			type: 'mergeProblems',
+			categoryId: keep.categoryId,
+			problemId: keepId,
+			changes: mergeProgress(keep.problem, others.map((m) => m.problem)),
+			merged: others.map((m) => ({ categoryId: m.categoryId, problemId: m.problem.id })),
+		});
 	}
 
-	function handleDragOver(e: React.DragEvent<HTMLDivElement>) {
-		e.preventDefault();
+	// Catalog export and import; an import is applied like the same edits made by hand
+	const [showTransfer, setShowTransfer] = useState(false);
+
+	function importCatalog(operations: Operation[]) {
+		operations.forEach(commit);
 	}
 
-	function handleDrop(targetIndex: number) {
-		return (e: React.DragEvent<HTMLDivElement>) => {
-			e.preventDefault();
-			if (dragIndex === null || dragIndex === targetIndex) return;
-			
-			// Find the actual category IDs from the filtered array
-			const draggedCategory = filteredCategories[dragIndex];
-			const targetCategory = filteredCategories[targetIndex];
-			
-			if (!draggedCategory || !targetCategory) return;
-			
-			// Find the actual indices in the original categories array
-			const originalDragIndex = categories.findIndex(cat => cat.id === draggedCategory.id);
-			const originalTargetIndex = categories.findIndex(cat => cat.id === targetCategory.id);
-			
-			if (originalDragIndex === -1 || originalTargetIndex === -1) return;
-			
-			setCategories((prev) => {
-				const next = [...prev];
-				const [moved] = next.splice(originalDragIndex, 1);
-				next.splice(originalTargetIndex, 0, moved);
-				return next;
-			});
-			setDragIndex(null);
-		};
+	// Move a category in front of another one (as its sibling) or inside it (as its last
+	// sub-category). Only the dragged category changes parent; its sub-categories come along.
+	function moveCategory(categoryId: string, targetId: string, position: 'before' | 'inside') {
+		const moved = categories.find((c) => c.id === categoryId);
+		const target = categories.find((c) => c.id === targetId);
+		if (!moved || !target) return;
+		// A category cannot end up inside its own subtree
+		if (subtreeIds(categories, categoryId).includes(targetId)) return;
+		// Personal and catalog categories are stored apart, so neither can hold the other
+		if (!!moved.personal !== !!target.personal) return;
+
+		const parentId = position === 'inside' ? targetId : target.parentId ?? null;
+		const next = categories.filter((c) => c.id !== categoryId);
+		// Siblings show in array order, so the end of the array is the end of the parent's list
+		const index = position === 'before' ? next.findIndex((c) => c.id === targetId) : next.length;
+		next.splice(index, 0, { ...moved, parentId });
+
+		const reparented = (moved.parentId ?? null) !== parentId;
+		// Positions count among categories of the same kind. Only those that changed
+		// position are written, plus the moved one if its parent changed.
+		const sameKind = (list: Category[]) => list.filter((c) => !!c.personal === !!moved.personal);
+		const before = sameKind(categories);
+		const order = sameKind(next)
+			.map((cat, orderIndex) => ({
+				categoryId: cat.id,
+				orderIndex,
+				...(reparented && cat.id === categoryId ? { parentId } : {}),
+			}))
+			.filter((entry) => before[entry.orderIndex]?.id !== entry.categoryId || 'parentId' in entry);
+		if (order.length > 0) commit({ type: 'reorderCategories', order, ...personalFlag(categoryId) });
 	}
 
-	function handleDragEnd(e: React.DragEvent<HTMLDivElement>) {
-		// Reset visual feedback
-		if (e.currentTarget) {
-			e.currentTarget.style.opacity = '1';
-		}
-		setDragIndex(null);
+	// Move a problem in front of another one (or to the end of a category when null)
+	function moveProblem(problemId: string, fromCategoryId: string, toCategoryId: string, beforeProblemId: string | null) {
+		const problem = categories.find((c) => c.id === fromCategoryId)?.problems.find((p) => p.id === problemId);
+		const to = categories.find((c) => c.id === toCategoryId);
+		if (!problem || !to) return;
+		// Personal problems stay in personal categories, catalog problems in the catalog
+		if (!!to.personal !== !!categories.find((c) => c.id === fromCategoryId)?.personal) return;
+
+		const next = categories.map((c) => {
+			const problems = c.problems.filter((p) => p.id !== problemId);
+			if (c.id !== toCategoryId) return { ...c, problems };
+			const index = beforeProblemId ? problems.findIndex((p) => p.id === beforeProblemId) : -1;
+			problems.splice(index === -1 ? problems.length : index, 0, problem);
+			return { ...c, problems };
+		});
+		// Only problems whose category or position changed need writing
+		const order = [...new Set([fromCategoryId, toCategoryId])].flatMap((categoryId) =>
+			next
+				.find((c) => c.id === categoryId)!
+				.problems.map((p, orderIndex) => ({ problemId: p.id, categoryId, orderIndex }))
+				.filter(({ problemId, orderIndex }) => categories.find((c) => c.id === categoryId)?.problems[orderIndex]?.id !== problemId)
+		);
+		if (order.length > 0) commit({ type: 'reorderProblems', order, ...personalFlag(toCategoryId) });
+	}
+
+	// A category card with its sub-categories nested inside, to any depth
+	function renderCategory(cat: Category): JSX.Element {
+		const children = childCategories(filteredCategories, cat.id);
+		return (
+			<CategoryCard
+				key={cat.id}
+				category={cat}
+				countedStatuses={countedStatuses}
+				rollupProblems={subtreeProblems(filteredCategories, cat.id)}
+				onDeleteCategory={() => deleteCategory(cat.id)}
+				onUpdateProblem={(pid, updater) => updateProblem(cat.id, pid, updater)}
+				onChangeStatus={(pid, status) => changeStatus(cat.id, pid, status)}
+				onDeleteProblem={(pid) => deleteProblem(cat.id, pid)}
+				findDuplicates={(url, pid) => findDuplicates(categories, url, pid)}
+				onUpdateCategory={(updates) => updateCategory(cat.id, updates)}
+				onMoveCategory={(categoryId, position) => moveCategory(categoryId, cat.id, position)}
+				onMoveProblem={(pid, fromCategoryId, beforeProblemId) => moveProblem(pid, fromCategoryId, cat.id, beforeProblemId)}
+			>
+				{children.length > 0 ? children.map(renderCategory) : undefined}
+			</CategoryCard>
+		);
 	}
 
 	return (
@@ -297,8 +418,10 @@ export default function App() {
 								/>
 							</div>
 							<div className="flex flex-col">
+								{hasRemote() && <SheetPicker onSelect={switchCatalog} progress={progress} counted={countedStatuses} />}
 								<div className="text-2xl font-semibold text-white">Total Progress</div>
 								<div className="text-2xl font-semibold text-white mt-1">{progress.done} / {progress.all}</div>
+								<ProgressCounting counted={countedStatuses} onChange={changeCountedStatuses} />
 							</div>
 						</div>
 						
@@ -341,7 +464,7 @@ export default function App() {
 							<div className="text-center">
 								<div className="text-white font-semibold text-lg mb-1">Easy</div>
 								<div className="text-sm text-gray-300 mb-3">
-									{flattenProblems(categories).filter((p) => p.difficulty === 'Easy' && p.completed).length}
+									{flattenProblems(categories).filter((p) => p.difficulty === 'Easy' && isDone(p, countedStatuses)).length}
 									/
 									{flattenProblems(categories).filter((p) => p.difficulty === 'Easy').length} completed
 								</div>
@@ -350,7 +473,7 @@ export default function App() {
 										className="h-full bg-green-500 rounded-full transition-all duration-300"
 										style={{
 											width: `${flattenProblems(categories).filter((p) => p.difficulty === 'Easy').length > 0 
-												? (flattenProblems(categories).filter((p) => p.difficulty === 'Easy' && p.completed).length / 
+												? (flattenProblems(categories).filter((p) => p.difficulty === 'Easy' && isDone(p, countedStatuses)).length / 
 													flattenProblems(categories).filter((p) => p.difficulty === 'Easy').length) * 100 
 												: 0}%`
 										}}
@@ -364,7 +487,7 @@ export default function App() {
 							<div className="text-center">
 								<div className="text-white font-semibold text-lg mb-1">Medium</div>
 								<div className="text-sm text-gray-300 mb-3">
-									{flattenProblems(categories).filter((p) => p.difficulty === 'Medium' && p.completed).length}
+									{flattenProblems(categories).filter((p) => p.difficulty === 'Medium' && isDone(p, countedStatuses)).length}
 									/
 									{flattenProblems(categories).filter((p) => p.difficulty === 'Medium').length} completed
 								</div>
@@ -373,7 +496,7 @@ export default function App() {
 										className="h-full bg-orange-500 rounded-full transition-all duration-300"
 										style={{
 											width: `${flattenProblems(categories).filter((p) => p.difficulty === 'Medium').length > 0 
-												? (flattenProblems(categories).filter((p) => p.difficulty === 'Medium' && p.completed).length / 
+												? (flattenProblems(categories).filter((p) => p.difficulty === 'Medium' && isDone(p, countedStatuses)).length / 
 													flattenProblems(categories).filter((p) => p.difficulty === 'Medium').length) * 100 
 												: 0}%`
 										}}
@@ -387,7 +510,7 @@ export default function App() {
 							<div className="text-center">
 								<div className="text-white font-semibold text-lg mb-1">Hard</div>
 								<div className="text-sm text-gray-300 mb-3">
-									{flattenProblems(categories).filter((p) => p.difficulty === 'Hard' && p.completed).length}
+									{flattenProblems(categories).filter((p) => p.difficulty === 'Hard' && isDone(p, countedStatuses)).length}
 									/
 									{flattenProblems(categories).filter((p) => p.difficulty === 'Hard').length} completed
 								</div>
@@ -396,7 +519,7 @@ export default function App() {
 										className="h-full bg-red-500 rounded-full transition-all duration-300"
 										style={{
 											width: `${flattenProblems(categories).filter((p) => p.difficulty === 'Hard').length > 0 
-												? (flattenProblems(categories).filter((p) => p.difficulty === 'Hard' && p.completed).length / 
+												? (flattenProblems(categories).filter((p) => p.difficulty === 'Hard' && isDone(p, countedStatuses)).length / 
 													flattenProblems(categories).filter((p) => p.difficulty === 'Hard').length) * 100 
 												: 0}%`
 										}}
@@ -405,23 +528,28 @@ export default function App() {
 							</div>
 						</div>
 						
-						{/* Connection Status */}
+						{/* Sync Status */}
 						<div className="flex items-center gap-2">
-							<div className={`w-2 h-2 rounded-full ${
-								connectionStatus === 'connected' ? 'bg-green-500' : 
-								connectionStatus === 'disconnected' ? 'bg-yellow-500' : 'bg-red-500'
-							}`}></div>
-							<span className="text-sm text-gray-300">
-								{connectionStatus === 'connected' ? 'Connected' : 
-								 connectionStatus === 'disconnected' ? 'Offline' : 'Error'}
-							</span>
-							{isAuthenticated && isAdmin && (
+							{hasRemote() && (
+								<SyncStatus
+									state={syncState}
+									onRetry={() => retryNow()}
+									onRetryFailed={() => retryFailed()}
+									onDiscardFailed={async () => {
+										discardFailed();
+										setCategories(applyPendingOperations(await loadData()));
+									}}
+									conflictPolicy={isAuthenticated ? conflictPolicy : undefined}
+									onChangeConflictPolicy={changeConflictPolicy}
+								/>
+							)}
+							{canEditCatalog && (
 								<button
 									onClick={async () => {
 										console.log('Manual refresh triggered');
-										const latest = await loadData();
+										await flushOperations();
+										const latest = applyPendingOperations(await loadData());
 										setCategories(latest);
-										setLastSavedState(JSON.stringify(latest));
 									}}
 									className="px-2 py-1 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors"
 									title="Refresh data from server"
@@ -431,24 +559,26 @@ export default function App() {
 							)}
 						</div>
 						
-						{/* Authentication Section */}
-						<div className="flex items-center gap-4">
-							{isAuthenticated ? (
-								<button
-									onClick={() => signOut()}
-									className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-sm rounded-md transition-colors"
-								>
-									Sign Out
-								</button>
-							) : (
-								<button
-									onClick={() => setShowAuthForm(true)}
-									className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md transition-colors"
-								>
-									Sign In
-								</button>
-							)}
-						</div>
+						{/* Authentication Section (only when there is a backend to sign in to) */}
+						{hasRemote() && (
+							<div className="flex items-center gap-4">
+								{isAuthenticated ? (
+									<button
+										onClick={() => signOut()}
+										className="px-3 py-1.5 bg-red-600 hover:bg-red-700 text-white text-sm rounded-md transition-colors"
+									>
+										Sign Out
+									</button>
+								) : (
+									<button
+										onClick={() => setShowAuthForm(true)}
+										className="px-3 py-1.5 bg-blue-600 hover:bg-blue-700 text-white text-sm rounded-md transition-colors"
+									>
+										Sign In
+									</button>
+								)}
+							</div>
+						)}
 					</div>
 				</div>
 			</header>
@@ -459,30 +589,41 @@ export default function App() {
 				onAddProblem={(cid, p) => addProblem(cid, p)}
 				onSearch={setSearch}
 				onFilterDifficulty={setFilterDifficulty}
+				onFilterTag={setFilterTag}
 				randomPick={randomPick}
-				canEdit={!loading && isAuthenticated && isAdmin}
+				dueCount={dueForRevision.length}
+				showingRevision={showRevision}
+				onToggleRevision={() => setShowRevision((v) => !v)}
+				duplicateCount={duplicates.length}
+				showingDuplicates={showDuplicates}
+				onToggleDuplicates={() => setShowDuplicates((v) => !v)}
+				showingTransfer={showTransfer}
+				onToggleTransfer={() => setShowTransfer((v) => !v)}
 			/>
 
 			<main className="container-xl mt-6 flex flex-col gap-4 pb-8">
-				{filteredCategories.map((cat, index) => (
-					<CategoryCard
-						key={cat.id}
-						category={cat}
-						onDeleteCategory={() => deleteCategory(cat.id)}
-						onUpdateProblem={(pid, updater) => updateProblem(cat.id, pid, updater)}
-						onDeleteProblem={(pid) => deleteProblem(cat.id, pid)}
-						onUpdateCategory={(updates) => updateCategory(cat.id, updates)}
-						readOnly={!isAuthenticated || !isAdmin}
-						progressReadOnly={!isAuthenticated}
-						draggable={isAuthenticated && isAdmin}
-						onDragStart={isAuthenticated && isAdmin ? handleDragStart(index) : undefined}
-						onDragOver={isAuthenticated && isAdmin ? handleDragOver : undefined}
-						onDrop={isAuthenticated && isAdmin ? handleDrop(index) : undefined}
-						onDragEnd={isAuthenticated && isAdmin ? handleDragEnd : undefined}
-					/>
-				))}
+				{showRevision && (
+					<RevisionQueue items={dueForRevision} today={today} onRate={rateReview} onClose={() => setShowRevision(false)} />
+				)}
+				{showDuplicates && canEditCatalog && (
+					<DuplicatesReport groups={duplicates} onMerge={mergeDuplicates} onClose={() => setShowDuplicates(false)} />
+				)}
+				{showTransfer && <CatalogTransfer categories={categories} onImport={importCatalog} onClose={() => setShowTransfer(false)} />}
+				{/* The user's personal categories follow the catalog's */}
+				{[
+					...childCategories(filteredCategories, null).filter((c) => !c.personal),
+					...childCategories(filteredCategories, null).filter((c) => c.personal),
+				].map(renderCategory)}
 			</main>
 			
+			{guestMerge.length > 0 && (
+				<GuestMergeDialog items={guestMerge} onMerge={mergeGuestProgress} onDiscard={discardGuestProgress} />
+			)}
+
+			{conflict && (
+				<ConflictDialog conflict={conflict} recordTitle={conflictTitle} onResolve={resolvePendingConflict} />
+			)}
+
 			{/* Sign In Modal */}
 			{showAuthForm && (
 				<div className="fixed inset-0 z-50 flex items-center justify-center" style={{ backgroundColor: '#00000080' }}>
@@ -658,10 +799,9 @@ export default function App() {
 												alert('Sign in failed: ' + error);
 											} else {
 												console.log('Sign in successful, checking auth status...');
-												// Force check authentication status after successful sign-in
+												// The session context picks up the new user through the auth change
 												const isAuthed = await getIsAuthenticated();
 												console.log('Auth status after sign in:', isAuthed);
-												setIsAuthenticated(isAuthed);
 												
 												setShowAuthForm(false);
 												setAuthEmail('');
@@ -671,8 +811,9 @@ export default function App() {
 												// Reload data from Supabase after authentication
 												if (isAuthed) {
 													console.log('Loading data from Supabase...');
-													const newData = await loadData();
+													const newData = applyPendingOperations(await loadData());
 													setCategories(newData);
+													offerGuestMerge(newData);
 												}
 											}
 										}
@@ -0,0 +1,101 @@
+import { ApplyResult, Attempt, Category, NoteRevision, Operation, ProblemStatus, RemoteChange } from '../types';
+
+export type StorageBackend = 'supabase' | 'local' | 'memory';
+
+// owner: everything; editor: change categories and problems but not delete categories;
+// viewer: read only. Everyone tracks their own progress.
+export type CatalogRole = 'owner' | 'editor' | 'viewer';
+
+export interface SyncContext {
+	userId: string;
+	// The catalog being edited, and what the user may do to it
+	catalogId: string | null;
+	role: CatalogRole;
+}
+
+export interface SignUpData {
+	name: string;
+	dob: string;
+	university: string;
+	city: string;
+	country: string;
+	state: string;
+}
+
+export interface UserProfile extends SignUpData {
+	email: string;
+}
+
+// A catalog as users see it: a sheet such as "Blind 75" that they can subscribe to
+export interface Catalog {
+	id: string;
+	title: string;
+	description: string;
+	isPublic: boolean;
+	ownerId: string | null;
+	// The user's role in this catalog; null when they are not a member
+	role: CatalogRole | null;
+	subscribed: boolean;
+	// How many of the sheet's problems the user has in each status; only on their own sheets
+	progress?: Partial<Record<ProblemStatus, number>>;
+}
+
+export type CatalogDetails = Pick<Catalog, 'title' | 'description' | 'isPublic'>;
+
+// Who is signed in and what they may do. Adapters load it once per auth change
+// and again when the user switches catalogs.
+export interface SessionInfo {
+	user: { id: string; email?: string } | null;
+	profile: UserProfile | null;
+	// The catalog on screen; null when there is none to show
+	catalogId: string | null;
+	// Null for visitors who are not signed in
+	role: CatalogRole | null;
+	// Admins may create new catalogs
+	isAdmin: boolean;
+}
+
+// Everything the app needs from a backend. The Supabase adapter talks to the
+// hosted database; the local and memory adapters run without any credentials.
+export interface StorageAdapter {
+	backend: StorageBackend;
+
+	// --- Data ---
+	loadData(): Promise<Category[]>;
+	// Persist a local snapshot of the current state
+	saveData(categories: Category[]): void;
+	// Who the operation queue syncs as; null means there is nobody to sync for.
+	// A catalogId asks for the user's role in that catalog rather than the current one.
+	getSyncContext(catalogId?: string | null): Promise<SyncContext | null>;
+	// Send a single queued operation to the backend. Throws on failure so the queue can retry;
+	// writes against a record that changed since it was loaded are reported as a conflict.
+	applyOperation(op: Operation, ctx: SyncContext): Promise<ApplyResult>;
+	// The signed-in user's attempts at a problem that have reached the backend, newest first
+	loadAttempts(problemId: string): Promise<Attempt[]>;
+	// Earlier versions of the signed-in user's note on a problem, newest first
+	loadNoteRevisions(problemId: string): Promise<NoteRevision[]>;
+
+	// --- Catalogs ---
+	// Every catalog the user can read, subscribed or not
+	listCatalogs(): Promise<Catalog[]>;
+	// Show another catalog; remembered on this device. The next getSession reflects it.
+	selectCatalog(catalogId: string): Promise<void>;
+	setSubscribed(catalogId: string, subscribed: boolean): Promise<void>;
+	// Returns the new catalog's id
+	createCatalog(details: CatalogDetails): Promise<string>;
+	updateCatalog(catalogId: string, details: CatalogDetails): Promise<void>;
+
+	// --- Auth ---
+	getIsAuthenticated(): Promise<boolean>;
+	// Cached until the signed-in user changes
+	getSession(): Promise<SessionInfo>;
+	signUpWithEmail(email: string, password: string, userData: SignUpData): Promise<{ error?: string }>;
+	signInWithEmail(email: string, password: string): Promise<{ error?: string }>;
+	signOut(): Promise<void>;
+	resetPassword(email: string): Promise<{ error?: string }>;
+	onAuthChange(cb: (isAuthed: boolean) => void): () => void;
+
+	// --- Realtime ---
+	// Changes made elsewhere (another device or tab), never echoes of our own writes
+	onRemoteChange(cb: (change: RemoteChange) => void): () => void;
+}
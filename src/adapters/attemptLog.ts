@@ -0,0 +1,47 @@
+import { Attempt } from '../types';
+
+// Attempt history for the local backend, kept in localStorage apart from the snapshot
+// since it only ever grows and is read one problem at a time.
+
+const ATTEMPTS_KEY = 'coding-platform-attempts';
+const MAX_ATTEMPTS_PER_PROBLEM = 200;
+
+function readLog(): Record<string, Attempt[]> {
+	try {
+		const parsed = JSON.parse(localStorage.getItem(ATTEMPTS_KEY) ?? '{}');
+		return parsed && typeof parsed === 'object' ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+export function readLocalAttempts(problemId: string): Attempt[] {
+	return [...(readLog()[problemId] ?? [])].sort((a, b) => b.endedAt.localeCompare(a.endedAt));
+}
+
+export function appendLocalAttempt(attempt: Attempt): void {
+	const log = readLog();
+	const existing = log[attempt.problemId] ?? [];
+	// A retried write must not log the attempt twice
+	if (existing.some((a) => a.id === attempt.id)) return;
+	log[attempt.problemId] = [...existing, attempt].slice(-MAX_ATTEMPTS_PER_PROBLEM);
+	try {
+		localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(log));
+	} catch (e) {
+		console.error('Failed to save attempt history', e);
+	}
+}
+
+// Merging duplicate problems carries their attempts over to the one that is kept
+export function moveLocalAttempts(fromIds: string[], toId: string): void {
+	const log = readLog();
+	const moved = fromIds.flatMap((id) => (log[id] ?? []).map((a) => ({ ...a, problemId: toId })));
+	if (moved.length === 0) return;
+	fromIds.forEach((id) => delete log[id]);
+	log[toId] = [...(log[toId] ?? []), ...moved].sort((a, b) => a.endedAt.localeCompare(b.endedAt)).slice(-MAX_ATTEMPTS_PER_PROBLEM);
+	try {
+		localStorage.setItem(ATTEMPTS_KEY, JSON.stringify(log));
+	} catch (e) {
+		console.error('Failed to save attempt history', e);
+	}
+}
@@ -0,0 +1,249 @@
+import { Category, Problem } from '../types';
+import { SnapshotEnvelope } from './snapshotSchema';
+
+// IndexedDB persistence for the local snapshot. Categories, problems and notes
+// are separate records, so a save only serializes and writes the records that
+// changed instead of the whole catalog on the main thread.
+
+const DB_NAME = 'coding-platform';
+const DB_VERSION = 1;
+const META_KEY = 'snapshot';
+
+interface CategoryRecord {
+	id: string;
+	title: string;
+	orderIndex: number;
+	parentId?: string | null;
+	personal?: boolean;
+	updatedAt?: string;
+}
+
+interface ProblemRecord extends Omit<Problem, 'note'> {
+	categoryId: string;
+	orderIndex: number;
+}
+
+interface NoteRecord {
+	problemId: string;
+	note: string;
+}
+
+interface MetaRecord {
+	key: typeof META_KEY;
+	schemaVersion: number;
+	owner: SnapshotEnvelope['owner'];
+}
+
+type StoreName = 'categories' | 'problems' | 'notes';
+const STORES: StoreName[] = ['categories', 'problems', 'notes'];
+
+// What is stored for one record: the object it was made from and where that object sat
+// (state is never mutated, so the same object at the same place means the same record),
+// and the record serialized, to tell a rebuilt but equal object from a changed one
+interface StoredRecord {
+	source: unknown;
+	place: string;
+	json: string;
+}
+
+type Baseline = Record<StoreName, Map<string, StoredRecord>>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Last known contents of each store, used to work out what changed
+let baseline: Baseline | null = null;
+// The stored schema version and owner (savedAt aside), so meta is only written when they change
+let baselineMeta: string | null = null;
+// Reads and writes run one at a time so the baseline always matches the database
+let chain: Promise<unknown> = Promise.resolve();
+
+export function isIndexedDbAvailable(): boolean {
+	return typeof indexedDB !== 'undefined';
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+	});
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+	if (!dbPromise) {
+		dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				if (!db.objectStoreNames.contains('meta')) db.createObjectStore('meta', { keyPath: 'key' });
+				if (!db.objectStoreNames.contains('categories')) db.createObjectStore('categories', { keyPath: 'id' });
+				if (!db.objectStoreNames.contains('problems')) {
+					db.createObjectStore('problems', { keyPath: 'id' }).createIndex('categoryId', 'categoryId');
+				}
+				if (!db.objectStoreNames.contains('notes')) db.createObjectStore('notes', { keyPath: 'problemId' });
+			};
+			request.onsuccess = () => resolve(request.result);
+			request.onerror = () => reject(request.error);
+		}).catch((e) => {
+			dbPromise = null;
+			throw e;
+		});
+	}
+	return dbPromise;
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+	const run = chain.then(task, task);
+	chain = run.catch(() => {});
+	return run;
+}
+
+interface RecordChanges {
+	next: Baseline;
+	// Records to put, and ids to delete, per store
+	puts: Record<StoreName, unknown[]>;
+	removed: Record<StoreName, string[]>;
+}
+
+// Work out which records differ from the baseline. Only records whose object or place
+// changed are serialized, so a keystroke in one note costs that note and its category.
+function diffRecords(categories: Category[], previous: Baseline | null): RecordChanges {
+	const next: Baseline = { categories: new Map(), problems: new Map(), notes: new Map() };
+	const puts: Record<StoreName, unknown[]> = { categories: [], problems: [], notes: [] };
+
+	const track = (store: StoreName, id: string, source: unknown, place: string, build: () => unknown) => {
+		const known = previous?.[store].get(id);
+		if (known && known.source === source && known.place === place) {
+			next[store].set(id, known);
+			return;
+		}
+		const record = build();
+		const json = JSON.stringify(record);
+		next[store].set(id, { source, place, json });
+		if (known?.json !== json) puts[store].push(record);
+	};
+
+	categories.forEach((c, orderIndex) => {
+		track('categories', c.id, c, String(orderIndex), (): CategoryRecord => ({
+			id: c.id,
+			title: c.title,
+			orderIndex,
+			parentId: c.parentId ?? null,
+			...(c.personal ? { personal: true } : {}),
+			updatedAt: c.updatedAt,
+		}));
+		c.problems.forEach((p, problemIndex) => {
+			track('problems', p.id, p, `${c.id}/${problemIndex}`, (): ProblemRecord => {
+				const { note: _note, ...rest } = p;
+				return { ...rest, categoryId: c.id, orderIndex: problemIndex };
+			});
+			if (p.note) track('notes', p.id, p.note, '', (): NoteRecord => ({ problemId: p.id, note: p.note! }));
+		});
+	});
+
+	const removed = Object.fromEntries(
+		STORES.map((store) => [store, previous ? [...previous[store].keys()].filter((id) => !next[store].has(id)) : []])
+	) as Record<StoreName, string[]>;
+	return { next, puts, removed };
+}
+
+function metaKey(snapshot: Pick<SnapshotEnvelope, 'schemaVersion' | 'owner'>): string {
+	return JSON.stringify([snapshot.schemaVersion, snapshot.owner.userId]);
+}
+
+// Rebuild the snapshot from its records; null when nothing has been stored yet
+export function readSnapshot(): Promise<SnapshotEnvelope | null> {
+	return enqueue(async () => {
+		const db = await openDatabase();
+		const tx = db.transaction(['meta', 'categories', 'problems', 'notes'], 'readonly');
+		const [meta, categoryRecords, problemRecords, noteRecords] = await Promise.all([
+			promisify(tx.objectStore('meta').get(META_KEY)) as Promise<MetaRecord | undefined>,
+			promisify(tx.objectStore('categories').getAll()) as Promise<CategoryRecord[]>,
+			promisify(tx.objectStore('problems').getAll()) as Promise<ProblemRecord[]>,
+			promisify(tx.objectStore('notes').getAll()) as Promise<NoteRecord[]>,
+		]);
+
+		baselineMeta = meta ? metaKey(meta) : null;
+		if (!meta) {
+			baseline = { categories: new Map(), problems: new Map(), notes: new Map() };
+			return null;
+		}
+
+		const notes = new Map(noteRecords.map((r) => [r.problemId, r.note]));
+		const categories: Category[] = [...categoryRecords]
+			.sort((a, b) => a.orderIndex - b.orderIndex)
+			.map(({ orderIndex: _orderIndex, ...c }) => ({
+				...c,
+				problems: problemRecords
+					.filter((p) => p.categoryId === c.id)
+					.sort((a, b) => a.orderIndex - b.orderIndex)
+					.map(({ categoryId: _categoryId, orderIndex: _problemIndex, ...p }) => ({ ...p, note: notes.get(p.id) ?? '' })),
+			}));
+		// The objects handed out are what later saves are compared against
+		baseline = diffRecords(categories, null).next;
+		return { schemaVersion: meta.schemaVersion, owner: meta.owner, categories };
+	});
+}
+
+// Write only the records that differ from what is already stored. Resolves to whether
+// anything was written; a save that changes nothing leaves savedAt as it was.
+export function writeSnapshot(snapshot: SnapshotEnvelope): Promise<boolean> {
+	return enqueue(async () => {
+		const db = await openDatabase();
+		if (!baseline) {
+			// Nothing read yet: learn what is stored so removed records get deleted
+			const tx = db.transaction(['categories', 'problems', 'notes'], 'readonly');
+			const [categoryKeys, problemKeys, noteKeys] = await Promise.all(STORES.map((store) => promisify(tx.objectStore(store).getAllKeys())));
+			const unknownContent = (keys: IDBValidKey[]) => new Map(keys.map((k) => [String(k), { source: undefined, place: '', json: '' }]));
+			baseline = { categories: unknownContent(categoryKeys), problems: unknownContent(problemKeys), notes: unknownContent(noteKeys) };
+		}
+
+		const { next, puts, removed } = diffRecords(snapshot.categories, baseline);
+		const nextMeta = metaKey(snapshot);
+		if (nextMeta === baselineMeta && STORES.every((store) => puts[store].length === 0 && removed[store].length === 0)) {
+			// Same content, possibly in new objects: remember those for the next save
+			baseline = next;
+			return false;
+		}
+
+		const tx = db.transaction(['meta', 'categories', 'problems', 'notes'], 'readwrite');
+		// The schema version and owner only change on upgrades and sign-in, but a save
+		// that changed records also stamps when it was made
+		const meta: MetaRecord = { key: META_KEY, schemaVersion: snapshot.schemaVersion, owner: snapshot.owner };
+		tx.objectStore('meta').put(meta);
+		STORES.forEach((store) => {
+			const objectStore = tx.objectStore(store);
+			puts[store].forEach((record) => objectStore.put(record));
+			removed[store].forEach((id) => objectStore.delete(id));
+		});
+
+		try {
+			await transactionDone(tx);
+			baseline = next;
+			baselineMeta = nextMeta;
+		} catch (e) {
+			// Unknown state: re-learn it before the next write
+			baseline = null;
+			baselineMeta = null;
+			throw e;
+		}
+		return true;
+	});
+}
+
+export function clearSnapshot(): Promise<void> {
+	return enqueue(async () => {
+		const db = await openDatabase();
+		const tx = db.transaction(['meta', 'categories', 'problems', 'notes'], 'readwrite');
+		['meta', 'categories', 'problems', 'notes'].forEach((store) => tx.objectStore(store).clear());
+		await transactionDone(tx);
+		baseline = { categories: new Map(), problems: new Map(), notes: new Map() };
+		baselineMeta = null;
+	});
+}
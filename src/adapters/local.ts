@@ -0,0 +1,30 @@
+import { StorageAdapter } from './adapter';
+import { offlineAuth } from './offline';
+import { onLocalSnapshotChange, readLocalSnapshot, writeLocalSnapshot } from './localSnapshot';
+import { appendLocalAttempt, moveLocalAttempts, readLocalAttempts } from './attemptLog';
+import { appendLocalNoteRevision, moveLocalNoteRevisions, readLocalNoteRevisions } from './noteRevisionLog';
+
+// Local-only tracker: data lives in this browser's localStorage
+export function createLocalAdapter(): StorageAdapter {
+	return {
+		backend: 'local',
+		...offlineAuth,
+		loadData: async () => readLocalSnapshot(),
+		saveData: writeLocalSnapshot,
+		// The snapshot already holds catalog changes; attempts and note history are logged on their own
+		applyOperation: async (op) => {
+			if (op.type === 'recordAttempt') appendLocalAttempt(op.attempt);
+			if (op.type === 'recordNoteRevision') appendLocalNoteRevision(op.revision);
+			if (op.type === 'mergeProblems') {
+				const mergedIds = op.merged.map((m) => m.problemId);
+				moveLocalAttempts(mergedIds, op.problemId);
+				moveLocalNoteRevisions(mergedIds, op.problemId);
+			}
+			return { versions: [] };
+		},
+		loadAttempts: async (problemId) => readLocalAttempts(problemId),
+		loadNoteRevisions: async (problemId) => readLocalNoteRevisions(problemId),
+		// Other tabs writing the snapshot are the only "remote" changes here
+		onRemoteChange: onLocalSnapshotChange,
+	};
+}
@@ -0,0 +1,244 @@
+import { Category, ProblemStatus, RemoteChange, ReviewSchedule, Solution } from '../types';
+import { CURRENT_SCHEMA_VERSION, SnapshotEnvelope, migrateSnapshot } from './snapshotSchema';
+import { clearSnapshot, isIndexedDbAvailable, readSnapshot, writeSnapshot } from './indexedDbStore';
+
+// The snapshot lives in IndexedDB. localStorage is where earlier versions kept it
+// (migrated on first read) and the fallback when IndexedDB cannot be opened.
+const STORAGE_KEY = 'coding-platform-data';
+// Unreadable payloads are moved here instead of being dropped
+const QUARANTINE_KEY = 'coding-platform-data-quarantine';
+const MAX_QUARANTINED = 5;
+// Before the envelope: a bare Category[] plus a separate owner record
+const LEGACY_KEY = 'coding-platform-data-v1';
+const LEGACY_OWNER_KEY = 'coding-platform-data-owner';
+// Tells other tabs the IndexedDB snapshot changed (it has no storage events)
+const CHANNEL_NAME = 'coding-platform-data';
+
+let useIndexedDb = isIndexedDbAvailable();
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+export type SnapshotOwner = SnapshotEnvelope['owner'];
+
+export interface GuestProgress {
+	status: ProblemStatus;
+	note: string;
+	review?: ReviewSchedule | null;
+	solutions?: Solution[];
+}
+
+export const SAMPLE_CATEGORIES: Category[] = [
+	{
+		id: 'default-1',
+		title: 'Sample Problems',
+		problems: [
+			{
+				id: 'p1',
+				title: 'Two Sum',
+				url: 'https://leetcode.com/problems/two-sum/',
+				platform: 'LeetCode',
+				difficulty: 'Easy',
+				status: 'todo',
+				note: ''
+			},
+			{
+				id: 'p2',
+				title: 'Add Two Numbers',
+				url: 'https://leetcode.com/problems/add-two-numbers/',
+				platform: 'LeetCode',
+				difficulty: 'Medium',
+				status: 'todo',
+				note: ''
+			}
+		]
+	}
+];
+
+function quarantine(raw: string, reason: unknown): void {
+	console.error('Local data could not be read and was quarantined:', reason);
+	try {
+		const existing = JSON.parse(localStorage.getItem(QUARANTINE_KEY) ?? '[]');
+		const entries = Array.isArray(existing) ? existing : [];
+		entries.push({ raw, reason: reason instanceof Error ? reason.message : String(reason), quarantinedAt: Date.now() });
+		localStorage.setItem(QUARANTINE_KEY, JSON.stringify(entries.slice(-MAX_QUARANTINED)));
+	} catch (e) {
+		console.error('Failed to quarantine local data', e);
+	}
+}
+
+function readStoredPayload(): { raw: string; payload: () => unknown; legacy: boolean } | null {
+	const raw = localStorage.getItem(STORAGE_KEY);
+	if (raw !== null) return { raw, payload: () => JSON.parse(raw), legacy: false };
+
+	const legacyRaw = localStorage.getItem(LEGACY_KEY);
+	if (legacyRaw === null) return null;
+	return {
+		raw: legacyRaw,
+		legacy: true,
+		payload: () => {
+			const ownerRaw = localStorage.getItem(LEGACY_OWNER_KEY);
+			return { schemaVersion: 1, owner: ownerRaw ? JSON.parse(ownerRaw) : undefined, categories: JSON.parse(legacyRaw) };
+		},
+	};
+}
+
+// Read and upgrade the localStorage snapshot. Anything that fails to parse, migrate or
+// validate is quarantined and treated as missing.
+function readLocalStorageEnvelope(): SnapshotEnvelope | null {
+	let stored;
+	try {
+		stored = readStoredPayload();
+	} catch (e) {
+		console.error('Failed to load data', e);
+		return null;
+	}
+	if (!stored) return null;
+
+	let envelope: SnapshotEnvelope;
+	let storedVersion: unknown;
+	try {
+		const payload = stored.payload() as { schemaVersion?: unknown };
+		storedVersion = payload?.schemaVersion;
+		envelope = migrateSnapshot(payload);
+	} catch (e) {
+		quarantine(stored.raw, e);
+		localStorage.removeItem(stored.legacy ? LEGACY_KEY : STORAGE_KEY);
+		return null;
+	}
+
+	// Persist the upgrade so it only runs once
+	if (stored.legacy || storedVersion !== CURRENT_SCHEMA_VERSION) {
+		try {
+			localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+			localStorage.removeItem(LEGACY_KEY);
+			localStorage.removeItem(LEGACY_OWNER_KEY);
+		} catch (e) {
+			console.error('Failed to save migrated data', e);
+		}
+	}
+	return envelope;
+}
+
+function disableIndexedDb(e: unknown): void {
+	console.error('IndexedDB is unavailable, keeping local data in localStorage:', e);
+	useIndexedDb = false;
+}
+
+async function readIndexedDbEnvelope(): Promise<SnapshotEnvelope | null> {
+	const stored = await readSnapshot();
+	if (!stored) {
+		// First run on IndexedDB: move whatever localStorage holds across
+		const envelope = readLocalStorageEnvelope();
+		if (envelope) {
+			await writeSnapshot(envelope);
+			localStorage.removeItem(STORAGE_KEY);
+		}
+		return envelope;
+	}
+
+	let envelope: SnapshotEnvelope;
+	try {
+		envelope = migrateSnapshot(stored);
+	} catch (e) {
+		quarantine(JSON.stringify(stored), e);
+		await clearSnapshot();
+		return null;
+	}
+	if (stored.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+		await writeSnapshot(envelope);
+	}
+	return envelope;
+}
+
+async function readEnvelope(): Promise<SnapshotEnvelope | null> {
+	if (useIndexedDb) {
+		try {
+			return await readIndexedDbEnvelope();
+		} catch (e) {
+			disableIndexedDb(e);
+		}
+	}
+	return readLocalStorageEnvelope();
+}
+
+export async function readLocalSnapshot(): Promise<Category[]> {
+	const localData = (await readEnvelope())?.categories ?? [];
+
+	// If there is no local data yet, show some default data
+	if (localData.length === 0) {
+		return SAMPLE_CATEGORIES;
+	}
+
+	return localData;
+}
+
+// What this tab last wrote to localStorage, savedAt aside
+let lastLocalStorageWrite: string | null = null;
+
+// Skips a write that would store what is already there, so other tabs get no storage
+// event for it and do not write back in turn
+function writeLocalStorageEnvelope(envelope: SnapshotEnvelope): void {
+	const content = JSON.stringify([envelope.schemaVersion, envelope.owner.userId, envelope.categories]);
+	if (content === lastLocalStorageWrite) return;
+	try {
+		localStorage.setItem(STORAGE_KEY, JSON.stringify(envelope));
+		lastLocalStorageWrite = content;
+	} catch (e) {
+		console.error('Failed to save data locally', e);
+	}
+}
+
+// Fire-and-forget: writes are queued and only changed records are stored. Other tabs
+// hear about a write only when it changed something.
+export function writeLocalSnapshot(categories: Category[], userId: string | null = null): void {
+	const envelope: SnapshotEnvelope = {
+		schemaVersion: CURRENT_SCHEMA_VERSION,
+		owner: { userId, savedAt: Date.now() },
+		categories,
+	};
+	if (!useIndexedDb) {
+		writeLocalStorageEnvelope(envelope);
+		return;
+	}
+	writeSnapshot(envelope)
+		.then((written) => {
+			if (written) channel?.postMessage('written');
+		})
+		.catch((e) => {
+			disableIndexedDb(e);
+			writeLocalStorageEnvelope(envelope);
+		});
+}
+
+export async function readSnapshotOwner(): Promise<SnapshotOwner | null> {
+	return (await readEnvelope())?.owner ?? null;
+}
+
+// Progress a visitor recorded without signing in. Snapshots from before owners
+// were tracked are migrated as guest data.
+export async function readGuestProgress(): Promise<Map<string, GuestProgress>> {
+	const progress = new Map<string, GuestProgress>();
+	const envelope = await readEnvelope();
+	if (!envelope || envelope.owner.userId) return progress;
+	envelope.categories.forEach((c) =>
+		c.problems.forEach((p) => {
+			if (p.status !== 'todo' || p.note || p.solutions?.length) {
+				progress.set(p.id, { status: p.status, note: p.note ?? '', review: p.review ?? null, solutions: p.solutions ?? [] });
+			}
+		})
+	);
+	return progress;
+}
+
+// Fires with the new data when another tab writes the snapshot
+export function onLocalSnapshotChange(cb: (change: RemoteChange) => void): () => void {
+	const notify = async () => cb({ type: 'snapshot', categories: await readLocalSnapshot() });
+	const handleStorage = (e: StorageEvent) => {
+		if (e.key === STORAGE_KEY) notify();
+	};
+	window.addEventListener('storage', handleStorage);
+	channel?.addEventListener('message', notify);
+	return () => {
+		window.removeEventListener('storage', handleStorage);
+		channel?.removeEventListener('message', notify);
+	};
+}
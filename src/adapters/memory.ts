@@ -0,0 +1,36 @@
+import { Attempt, Category, NoteRevision } from '../types';
+import { StorageAdapter } from './adapter';
+import { offlineAuth } from './offline';
+import { SAMPLE_CATEGORIES } from './localSnapshot';
+
+// Nothing is persisted: useful for demo builds and tests
+export function createMemoryAdapter(initial: Category[] = SAMPLE_CATEGORIES): StorageAdapter {
+	let snapshot = initial;
+	let attempts: Attempt[] = [];
+	let noteRevisions: NoteRevision[] = [];
+	return {
+		backend: 'memory',
+		...offlineAuth,
+		loadData: async () => snapshot,
+		saveData: (categories) => {
+			snapshot = categories;
+		},
+		applyOperation: async (op) => {
+			if (op.type === 'recordAttempt' && !attempts.some((a) => a.id === op.attempt.id)) attempts = [...attempts, op.attempt];
+			if (op.type === 'recordNoteRevision' && !noteRevisions.some((r) => r.id === op.revision.id)) {
+				noteRevisions = [...noteRevisions, op.revision];
+			}
+			if (op.type === 'mergeProblems') {
+				const mergedIds = new Set(op.merged.map((m) => m.problemId));
+				attempts = attempts.map((a) => (mergedIds.has(a.problemId) ? { ...a, problemId: op.problemId } : a));
+				noteRevisions = noteRevisions.map((r) => (mergedIds.has(r.problemId) ? { ...r, problemId: op.problemId } : r));
+			}
+			return { versions: [] };
+		},
+		loadAttempts: async (problemId) =>
+			attempts.filter((a) => a.problemId === problemId).sort((a, b) => b.endedAt.localeCompare(a.endedAt)),
+		loadNoteRevisions: async (problemId) =>
+			noteRevisions.filter((r) => r.problemId === problemId).sort((a, b) => b.savedAt.localeCompare(a.savedAt)),
+		onRemoteChange: () => () => {},
+	};
+}
@@ -0,0 +1,47 @@
+import { NoteRevision } from '../types';
+
+// Earlier note versions for the local backend, kept in localStorage apart from the
+// snapshot like the attempt log. Only the latest few per problem are kept.
+
+const NOTE_REVISIONS_KEY = 'coding-platform-note-revisions';
+export const MAX_NOTE_REVISIONS_PER_PROBLEM = 50;
+
+function readLog(): Record<string, NoteRevision[]> {
+	try {
+		const parsed = JSON.parse(localStorage.getItem(NOTE_REVISIONS_KEY) ?? '{}');
+		return parsed && typeof parsed === 'object' ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+export function readLocalNoteRevisions(problemId: string): NoteRevision[] {
+	return [...(readLog()[problemId] ?? [])].sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+}
+
+export function appendLocalNoteRevision(revision: NoteRevision): void {
+	const log = readLog();
+	const existing = log[revision.problemId] ?? [];
+	// A retried write must not log the revision twice
+	if (existing.some((r) => r.id === revision.id)) return;
+	log[revision.problemId] = [...existing, revision].slice(-MAX_NOTE_REVISIONS_PER_PROBLEM);
+	try {
+		localStorage.setItem(NOTE_REVISIONS_KEY, JSON.stringify(log));
+	} catch (e) {
+		console.error('Failed to save note history', e);
+	}
+}
+
+// Merging duplicate problems carries their note history over to the one that is kept
+export function moveLocalNoteRevisions(fromIds: string[], toId: string): void {
+	const log = readLog();
+	const moved = fromIds.flatMap((id) => (log[id] ?? []).map((r) => ({ ...r, problemId: toId })));
+	if (moved.length === 0) return;
+	fromIds.forEach((id) => delete log[id]);
+	log[toId] = [...(log[toId] ?? []), ...moved].sort((a, b) => a.savedAt.localeCompare(b.savedAt)).slice(-MAX_NOTE_REVISIONS_PER_PROBLEM);
+	try {
+		localStorage.setItem(NOTE_REVISIONS_KEY, JSON.stringify(log));
+	} catch (e) {
+		console.error('Failed to save note history', e);
+	}
+}
@@ -0,0 +1,65 @@
+import { Catalog, SessionInfo, StorageAdapter, SyncContext } from './adapter';
+
+// Backends without a server have a single local user who owns everything,
+// so the whole app is editable and there is nothing to sign in to.
+const LOCAL_CONTEXT: SyncContext = { userId: 'local', catalogId: 'local', role: 'owner' };
+const LOCAL_SESSION: SessionInfo = {
+	user: { id: LOCAL_CONTEXT.userId },
+	profile: null,
+	catalogId: LOCAL_CONTEXT.catalogId,
+	role: 'owner',
+	isAdmin: false,
+};
+const LOCAL_CATALOG: Catalog = {
+	id: 'local',
+	title: 'My problems',
+	description: 'Kept in this browser',
+	isPublic: false,
+	ownerId: LOCAL_CONTEXT.userId,
+	role: 'owner',
+	subscribed: true,
+};
+const NO_AUTH_ERROR = 'Accounts are not available in offline mode.';
+const NO_CATALOGS_ERROR = 'Sheets are not available in offline mode.';
+
+export const offlineAuth: Pick<
+	StorageAdapter,
+	| 'getSyncContext'
+	| 'applyOperation'
+	| 'listCatalogs'
+	| 'selectCatalog'
+	| 'setSubscribed'
+	| 'createCatalog'
+	| 'updateCatalog'
+	| 'getIsAuthenticated'
+	| 'getSession'
+	| 'signUpWithEmail'
+	| 'signInWithEmail'
+	| 'signOut'
+	| 'resetPassword'
+	| 'onAuthChange'
+> = {
+	getSyncContext: async () => LOCAL_CONTEXT,
+	// The snapshot is the source of truth, so operations have nowhere further to go
+	applyOperation: async () => ({ versions: [] }),
+	// One catalog: everything in this browser
+	listCatalogs: async () => [LOCAL_CATALOG],
+	selectCatalog: async () => {},
+	setSubscribed: async () => {},
+	createCatalog: async () => {
+		throw new Error(NO_CATALOGS_ERROR);
+	},
+	updateCatalog: async () => {
+		throw new Error(NO_CATALOGS_ERROR);
+	},
+	getIsAuthenticated: async () => true,
+	getSession: async () => LOCAL_SESSION,
+	signUpWithEmail: async () => ({ error: NO_AUTH_ERROR }),
+	signInWithEmail: async () => ({ error: NO_AUTH_ERROR }),
+	signOut: async () => {},
+	resetPassword: async () => ({ error: NO_AUTH_ERROR }),
+	onAuthChange: (cb) => {
+		cb(true);
+		return () => {};
+	},
+};
@@ -0,0 +1,138 @@
+import { Category, Difficulty, Problem } from '../types';
+import { isProblemStatus, legacyStatus } from '../status';
+import { isSolutionLanguage } from '../highlight';
+
+// Persisted local data is wrapped in a versioned envelope. Whenever the shape of
+// Category/Problem changes, bump CURRENT_SCHEMA_VERSION and add a migration that
+// upgrades the previous version's payload.
+
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export interface SnapshotEnvelope {
+	schemaVersion: number;
+	// Who wrote the snapshot: a signed-in user's id, or null for a guest
+	owner: { userId: string | null; savedAt: number };
+	categories: Category[];
+}
+
+type Migration = (payload: any) => any;
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+// MIGRATIONS[n] upgrades a version n payload to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+	// v1 was a bare Category[] with the owner stored under a separate key
+	1: (payload) => ({
+		schemaVersion: 2,
+		owner: payload.owner ?? { userId: null, savedAt: Date.now() },
+		categories: payload.categories,
+	}),
+	// Up to v2 problems were always shown sorted by difficulty; from v3 the array order is
+	// the order the user chose, starting from what they were used to seeing
+	2: (payload) => ({
+		...payload,
+		schemaVersion: 3,
+		categories: Array.isArray(payload.categories)
+			? payload.categories.map((c: any) =>
+					Array.isArray(c?.problems)
+						? { ...c, problems: [...c.problems].sort((a: any, b: any) => difficultyRank(a?.difficulty) - difficultyRank(b?.difficulty)) }
+						: c
+				)
+			: payload.categories,
+	}),
+	// v4 replaced the completed flag with a status
+	3: (payload) => ({
+		...payload,
+		schemaVersion: 4,
+		categories: Array.isArray(payload.categories)
+			? payload.categories.map((c: any) =>
+					Array.isArray(c?.problems)
+						? {
+								...c,
+								problems: c.problems.map((p: any) => {
+									if (!p || typeof p !== 'object') return p;
+									const { completed, ...rest } = p;
+									return { ...rest, status: legacyStatus(completed) };
+								}),
+							}
+						: c
+				)
+			: payload.categories,
+	}),
+};
+
+function difficultyRank(difficulty: unknown): number {
+	const index = DIFFICULTIES.indexOf(difficulty as Difficulty);
+	return index === -1 ? DIFFICULTIES.length : index;
+}
+
+export function migrateSnapshot(payload: any): SnapshotEnvelope {
+	let current = payload;
+	let version = Number(current?.schemaVersion);
+	if (!Number.isInteger(version) || version < 1) {
+		throw new Error(`Unknown schema version: ${String(current?.schemaVersion)}`);
+	}
+	if (version > CURRENT_SCHEMA_VERSION) {
+		throw new Error(`Snapshot was written by a newer version of the app (schema ${version})`);
+	}
+	while (version < CURRENT_SCHEMA_VERSION) {
+		const migrate = MIGRATIONS[version];
+		if (!migrate) throw new Error(`No migration from schema version ${version}`);
+		current = migrate(current);
+		version += 1;
+	}
+	return validateEnvelope(current);
+}
+
+function isString(value: unknown): value is string {
+	return typeof value === 'string';
+}
+
+function validateProblem(value: any, path: string): Problem {
+	if (!value || typeof value !== 'object') throw new Error(`${path} is not an object`);
+	if (!isString(value.id) || !isString(value.title)) throw new Error(`${path} is missing id or title`);
+	if (!isString(value.url) || !isString(value.platform)) throw new Error(`${path} is missing url or platform`);
+	if (!DIFFICULTIES.includes(value.difficulty)) throw new Error(`${path} has unknown difficulty`);
+	if (!isProblemStatus(value.status)) throw new Error(`${path} has unknown status`);
+	if (value.note !== undefined && value.note !== null && !isString(value.note)) throw new Error(`${path}.note is not a string`);
+	if (value.review !== undefined && value.review !== null) {
+		const review = value.review;
+		if (typeof review !== 'object' || !isString(review.due) || ![review.intervalDays, review.ease, review.repetitions].every((n) => typeof n === 'number')) {
+			throw new Error(`${path}.review is malformed`);
+		}
+	}
+	if (value.solutions !== undefined) {
+		const valid =
+			Array.isArray(value.solutions) &&
+			value.solutions.every((s: any) => s && typeof s === 'object' && isString(s.id) && isSolutionLanguage(s.language) && isString(s.code));
+		if (!valid) throw new Error(`${path}.solutions is malformed`);
+	}
+	if (value.externalId !== undefined && !isString(value.externalId)) throw new Error(`${path}.externalId is not a string`);
+	if (value.tags !== undefined && (!Array.isArray(value.tags) || !value.tags.every(isString))) {
+		throw new Error(`${path}.tags is not a list of strings`);
+	}
+	return value as Problem;
+}
+
+export function validateCategories(value: unknown, path = 'categories'): Category[] {
+	if (!Array.isArray(value)) throw new Error(`${path} is not an array`);
+	value.forEach((c: any, i) => {
+		const at = `${path}[${i}]`;
+		if (!c || typeof c !== 'object') throw new Error(`${at} is not an object`);
+		if (!isString(c.id) || !isString(c.title)) throw new Error(`${at} is missing id or title`);
+		if (c.parentId !== undefined && c.parentId !== null && !isString(c.parentId)) throw new Error(`${at}.parentId is not a string`);
+		if (c.personal !== undefined && typeof c.personal !== 'boolean') throw new Error(`${at}.personal is not a boolean`);
+		if (!Array.isArray(c.problems)) throw new Error(`${at}.problems is not an array`);
+		c.problems.forEach((p: unknown, j: number) => validateProblem(p, `${at}.problems[${j}]`));
+	});
+	return value as Category[];
+}
+
+function validateEnvelope(value: any): SnapshotEnvelope {
+	if (!value || typeof value !== 'object') throw new Error('Snapshot is not an object');
+	const owner = value.owner;
+	if (!owner || typeof owner !== 'object' || (owner.userId !== null && !isString(owner.userId)) || typeof owner.savedAt !== 'number') {
+		throw new Error('Snapshot owner is malformed');
+	}
+	return { schemaVersion: CURRENT_SCHEMA_VERSION, owner, categories: validateCategories(value.categories) };
+}
@@ -0,0 +1,1098 @@
+import { ApplyResult, Attempt, Category, NoteRevision, Operation, Problem, ProblemStatus, RecordVersion, RemoteChange, ReviewSchedule, Solution } from '../types';
+import { PROGRESS_FIELDS, generateId } from '../utils';
+import { createClient, type AuthChangeEvent, type Session, type SupabaseClient } from '@supabase/supabase-js';
+import { Catalog, CatalogDetails, CatalogRole, SessionInfo, SignUpData, StorageAdapter, SyncContext } from './adapter';
+import { readGuestProgress, readLocalSnapshot, writeLocalSnapshot } from './localSnapshot';
+import { isProblemStatus } from '../status';
+
+const PROBLEM_FIELDS = ['title', 'url', 'platform', 'externalId', 'difficulty', 'tags'] as const;
+const CATEGORY_FIELDS = ['title'] as const;
+// A personal problem's row holds its progress too
+const PERSONAL_PROBLEM_FIELDS = [...PROBLEM_FIELDS, ...PROGRESS_FIELDS];
+// A user's progress on one problem, laid over the catalog row
+type ProgressOverlay = { status: ProblemStatus; note: string; review?: ReviewSchedule | null; solutions?: Solution[]; updatedAt?: string };
+// Operations written as a change set; history and merges have their own paths
+type CatalogOperation = Exclude<Operation, { type: 'recordAttempt' | 'recordNoteRevision' | 'mergeProblems' }>;
+// Problem fields whose column is named differently
+const PROBLEM_COLUMNS: Record<string, string> = { externalId: 'external_id' };
+
+// Problem changes keyed by column name, for writing
+function toProblemColumns(changes: Record<string, unknown>): Record<string, unknown> {
+	return Object.fromEntries(Object.entries(changes).map(([field, value]) => [PROBLEM_COLUMNS[field] ?? field, value]));
+}
+
+// A problem row keyed by field name, for comparing with local changes
+function fromProblemColumns(row: Record<string, unknown>): Record<string, unknown> {
+	const fields = Object.fromEntries(Object.entries(PROBLEM_COLUMNS).map(([field, column]) => [column, field]));
+	return Object.fromEntries(Object.entries(row).map(([column, value]) => [fields[column] ?? column, value]));
+}
+
+function rowStatus(row: any): ProblemStatus {
+	return isProblemStatus(row.status) ? row.status : 'todo';
+}
+
+// The catalog the user last switched to on this device
+const CHOSEN_CATALOG_KEY = 'coding-platform-catalog';
+
+// Lower ranks win when a user belongs to several catalogs
+const ROLE_RANK: Record<CatalogRole, number> = { owner: 0, editor: 1, viewer: 2 };
+
+// Rows for the save_catalog function, keyed by column name. Only the keys present
+// are written; base_updated_at makes the write conditional on that version.
+interface CatalogChangeSet {
+	categories?: Record<string, unknown>[];
+	problems?: Record<string, unknown>[];
+	deletedProblemIds?: string[];
+	deletedCategoryIds?: string[];
+}
+
+interface SaveCatalogResult {
+	categories?: { id: string; updated_at: string }[];
+	problems?: { id: string; updated_at: string }[];
+	conflicts?: { table: 'categories' | 'problems'; row: Record<string, any> | null }[];
+}
+
+// Tags every write from this tab so realtime echoes of our own changes can be ignored
+const CLIENT_ID = generateId('client');
+
+// Ensure a single Supabase client instance across HMR and the app
+function getClient(supabaseUrl: string, supabaseAnonKey: string): SupabaseClient {
+	const existingClient = (globalThis as any).__supabaseClient;
+	if (existingClient) return existingClient;
+	const client = createClient(supabaseUrl, supabaseAnonKey, {
+		auth: {
+			persistSession: true,
+			autoRefreshToken: true,
+			// Use a dedicated storage key to avoid conflicts and multiple GoTrueClient warnings
+			storageKey: 'coding-platform-auth',
+		},
+		realtime: {
+			params: {
+				eventsPerSecond: 10,
+			},
+		},
+	});
+	(globalThis as any).__supabaseClient = client;
+	return client;
+}
+
+export function createSupabaseAdapter(supabaseUrl: string, supabaseAnonKey: string): StorageAdapter {
+	const supabase = getClient(supabaseUrl, supabaseAnonKey);
+
+	// Tracked so the local snapshot records whose data it holds
+	let sessionUserId: string | null = null;
+	// Role and profile of the signed-in user, loaded once per auth change
+	let sessionInfo: Promise<SessionInfo> | null = null;
+	// Told when the user switches sheets, after the cached session is dropped
+	const catalogSwitchListeners = new Set<() => void>();
+	supabase.auth.getSession().then(({ data }) => {
+		sessionUserId = data.session?.user.id ?? null;
+	});
+	supabase.auth.onAuthStateChange((event, session) => {
+		sessionUserId = session?.user.id ?? null;
+		// A refreshed token is still the same user with the same role
+		if (event !== 'TOKEN_REFRESHED') sessionInfo = null;
+	});
+
+	async function loadData(): Promise<Category[]> {
+		// Load the session's catalog from Supabase, otherwise use local storage
+		try {
+			const session = await getSession();
+
+			if (session.catalogId) {
+				const { data: categoriesData, error: categoriesError } = await supabase
+					.from('categories')
+					.select('id, title, order_index, parent_id, updated_at')
+					.eq('catalog_id', session.catalogId)
+					.order('order_index', { ascending: true });
+				if (categoriesError) throw categoriesError;
+
+				const { data: problemsData, error: problemsError } = await supabase
+					.from('problems')
+					.select('id, category_id, title, url, platform, external_id, difficulty, tags, order_index, updated_at')
+					.eq('catalog_id', session.catalogId)
+					.order('order_index', { ascending: true });
+				if (problemsError) throw problemsError;
+
+				// Signed-in users keep their progress on the server, visitors in this browser
+				const progressByProblem: Map<string, ProgressOverlay> = session.user
+					? await loadProgress(session.user.id)
+					: await readGuestProgress();
+
+				if (categoriesData && problemsData) {
+					const categories: Category[] = categoriesData.map((cat: any) => ({
+						id: cat.id,
+						title: cat.title,
+						parentId: cat.parent_id ?? null,
+						updatedAt: cat.updated_at,
+						problems: problemsData
+							.filter((prob: any) => prob.category_id === cat.id)
+							.map((prob: any) => {
+								const overlay = progressByProblem.get(prob.id);
+								return {
+									id: prob.id,
+									title: prob.title,
+									url: prob.url,
+									platform: prob.platform,
+									externalId: prob.external_id ?? undefined,
+									difficulty: prob.difficulty,
+									tags: prob.tags ?? [],
+									status: overlay?.status ?? 'todo',
+									note: overlay?.note ?? '',
+									review: overlay?.review ?? null,
+									solutions: overlay?.solutions ?? [],
+									updatedAt: prob.updated_at,
+									progressUpdatedAt: overlay?.updatedAt
+								};
+							})
+					}));
+					// The user's own categories come after the catalog's
+					return session.user ? [...categories, ...(await loadPersonal(session.catalogId))] : categories;
+				}
+			}
+		} catch (e) {
+			console.error('Supabase load error, falling back to local:', e);
+			// If it's a resource error, wait a bit before trying again
+			if (e instanceof Error && e.message.includes('ERR_INSUFFICIENT_RESOURCES')) {
+				console.log('Resource limit reached, waiting before retry...');
+				// Don't retry immediately - let the user continue with local data
+			}
+		}
+
+		// Always try local storage as fallback (for both authenticated and non-authenticated users)
+		return readLocalSnapshot();
+	}
+
+	async function loadProgress(userId: string): Promise<Map<string, ProgressOverlay>> {
+		const { data, error } = await supabase
+			.from('user_problem_progress')
+			.select('problem_id, status, note, review, solutions, updated_at')
+			.eq('user_id', userId);
+		if (error) throw error;
+		return new Map(
+			(data ?? []).map((row: any) => [
+				row.problem_id,
+				{ status: rowStatus(row), note: row.note ?? '', review: row.review ?? null, solutions: row.solutions ?? [], updatedAt: row.updated_at },
+			])
+		);
+	}
+
+	// Personal categories and problems for the catalog on screen. RLS only returns the
+	// user's own rows, and each problem row carries its progress.
+	async function loadPersonal(catalogId: string): Promise<Category[]> {
+		const [categoriesResult, problemsResult] = await Promise.all([
+			supabase
+				.from('personal_categories')
+				.select('id, title, parent_id, updated_at')
+				.eq('catalog_id', catalogId)
+				.order('order_index', { ascending: true }),
+			supabase
+				.from('personal_problems')
+				.select('id, category_id, title, url, platform, external_id, difficulty, tags, status, note, review, solutions, updated_at')
+				.eq('catalog_id', catalogId)
+				.order('order_index', { ascending: true }),
+		]);
+		if (categoriesResult.error) throw categoriesResult.error;
+		if (problemsResult.error) throw problemsResult.error;
+		return (categoriesResult.data ?? []).map((cat: any) => ({
+			id: cat.id,
+			title: cat.title,
+			parentId: cat.parent_id ?? null,
+			personal: true,
+			updatedAt: cat.updated_at,
+			problems: (problemsResult.data ?? []).filter((prob: any) => prob.category_id === cat.id).map(personalProblem),
+		}));
+	}
+
+	function personalProblem(row: any): Omit<Problem, 'progressUpdatedAt'> {
+		return {
+			id: row.id,
+			title: row.title,
+			url: row.url,
+			platform: row.platform,
+			externalId: row.external_id ?? undefined,
+			difficulty: row.difficulty,
+			tags: row.tags ?? [],
+			status: rowStatus(row),
+			note: row.note ?? '',
+			review: row.review ?? null,
+			solutions: row.solutions ?? [],
+			updatedAt: row.updated_at,
+		};
+	}
+
+	function saveData(categories: Category[]): void {
+		// Local snapshot only; remote changes travel through the operation queue
+		writeLocalSnapshot(categories, sessionUserId);
+	}
+
+	// Resolve who we are syncing as; null means there is nobody to sync for
+	async function getSyncContext(catalogId?: string | null): Promise<SyncContext | null> {
+		const { data: sessionData } = await supabase.auth.getSession();
+		const userId = sessionData.session?.user.id;
+		if (!userId) return null;
+		const session = await getSession();
+		if (catalogId === undefined || catalogId === session.catalogId) {
+			return { userId, catalogId: session.catalogId, role: session.role ?? 'viewer' };
+		}
+		// Changes queued before switching sheets still go to the sheet they were made on
+		const { roles } = await loadMemberships(userId);
+		return { userId, catalogId, role: (catalogId && roles.get(catalogId)) || 'viewer' };
+	}
+
+	function pickFields(row: Record<string, unknown>, fields: readonly string[]): Record<string, unknown> {
+		const picked: Record<string, unknown> = {};
+		fields.forEach((field) => {
+			if (field in row) picked[field] = row[field];
+		});
+		return picked;
+	}
+
+	function omitFields<T extends object>(row: T, fields: readonly string[]): Partial<T> {
+		return Object.fromEntries(Object.entries(row).filter(([field]) => !fields.includes(field))) as Partial<T>;
+	}
+
+	// Upsert the user's own progress, only if the row is still at the version we loaded
+	async function applyProgress(op: Extract<Operation, { type: 'updateProblem' }>, ctx: SyncContext): Promise<ApplyResult> {
+		const progress = pickFields(op.changes, PROGRESS_FIELDS);
+		if (Object.keys(progress).length === 0) return { versions: [] };
+		const toVersion = (version: string): RecordVersion[] => [
+			{ categoryId: op.categoryId, problemId: op.problemId, field: 'progressUpdatedAt', version },
+		];
+
+		if (op.baseProgressVersion) {
+			const { data, error } = await supabase
+				.from('user_problem_progress')
+				.update({ ...progress, client_id: CLIENT_ID })
+				.eq('user_id', ctx.userId)
+				.eq('problem_id', op.problemId)
+				.eq('updated_at', op.baseProgressVersion)
+				.select('updated_at');
+			if (error) throw error;
+			if (data && data.length > 0) return { versions: toVersion(data[0].updated_at) };
+		} else {
+			const { data, error } = await supabase
+				.from('user_problem_progress')
+				.insert({ user_id: ctx.userId, problem_id: op.problemId, ...progress, client_id: CLIENT_ID })
+				.select('updated_at');
+			// 23505: another device created the row first
+			if (error && error.code !== '23505') throw error;
+			if (!error && data && data.length > 0) return { versions: toVersion(data[0].updated_at) };
+		}
+
+		const { data: server, error: serverError } = await supabase
+			.from('user_problem_progress')
+			.select('status, note, review, solutions, updated_at')
+			.eq('user_id', ctx.userId)
+			.eq('problem_id', op.problemId)
+			.maybeSingle();
+		if (serverError) throw serverError;
+		if (!server) {
+			// The row we based this on is gone, so there is nothing to conflict with
+			const { data, error } = await supabase
+				.from('user_problem_progress')
+				.upsert({ user_id: ctx.userId, problem_id: op.problemId, ...progress, client_id: CLIENT_ID }, { onConflict: 'user_id,problem_id' })
+				.select('updated_at');
+			if (error) throw error;
+			return { versions: data && data.length > 0 ? toVersion(data[0].updated_at) : [] };
+		}
+		return {
+			versions: [],
+			conflict: {
+				kind: 'progress',
+				categoryId: op.categoryId,
+				problemId: op.problemId,
+				local: progress,
+				server: pickFields(server, PROGRESS_FIELDS),
+				serverVersion: server.updated_at,
+			},
+		};
+	}
+
+	// Send a single queued operation to Supabase. Throws on failure so the queue can retry;
+	// a write against a row that changed since it was loaded comes back as a conflict.
+	async function applyOperation(op: Operation, ctx: SyncContext): Promise<ApplyResult> {
+		const catalogId = ctx.role === 'owner' || ctx.role === 'editor' ? ctx.catalogId : null;
+
+		if (op.type === 'recordAttempt') return recordAttempt(op.attempt, ctx);
+		if (op.type === 'recordNoteRevision') return recordNoteRevision(op.revision, ctx);
+		if (op.type === 'mergeProblems') return catalogId ? mergeProblems(op) : { versions: [] };
+		if (op.personal) return applyPersonalOperation(op, ctx);
+
+		if (op.type === 'updateProblem') {
+			// Progress is personal whatever the role; the rest of the change is catalog
+			const progressResult = await applyProgress(op, ctx);
+			const changes = omitFields(op.changes, PROGRESS_FIELDS);
+			if (progressResult.conflict || !catalogId || Object.keys(changes).length === 0) return progressResult;
+			const catalogResult = await saveCatalog(catalogId, op, toChangeSet({ ...op, changes }));
+			return { versions: [...progressResult.versions, ...catalogResult.versions], conflict: catalogResult.conflict };
+		}
+
+		// Viewers only ever write their own progress
+		if (!catalogId) return { versions: [] };
+		if (op.type === 'deleteCategory' && ctx.role !== 'owner') {
+			// Not a success: the queue parks it so the user sees the category was not deleted
+			throw new Error('Only catalog owners can delete categories');
+		}
+		return saveCatalog(catalogId, op, toChangeSet(op));
+	}
+
+	async function recordAttempt(attempt: Attempt, ctx: SyncContext): Promise<ApplyResult> {
+		const { error } = await supabase.from('problem_attempts').insert({
+			id: attempt.id,
+			user_id: ctx.userId,
+			problem_id: attempt.problemId,
+			started_at: attempt.startedAt,
+			ended_at: attempt.endedAt,
+			outcome: attempt.outcome,
+			time_spent_seconds: attempt.timeSpentSeconds ?? null,
+		});
+		// 23505: an earlier try got through before the response was lost
+		if (error && error.code !== '23505') throw error;
+		return { versions: [] };
+	}
+
+	async function loadAttempts(problemId: string): Promise<Attempt[]> {
+		const { data: sessionData } = await supabase.auth.getSession();
+		const userId = sessionData.session?.user.id;
+		// Visitors have nowhere to keep a history
+		if (!userId) return [];
+		const { data, error } = await supabase
+			.from('problem_attempts')
+			.select('id, problem_id, started_at, ended_at, outcome, time_spent_seconds')
+			.eq('user_id', userId)
+			.eq('problem_id', problemId)
+			.order('ended_at', { ascending: false });
+		if (error) throw error;
+		return (data ?? []).map((row: any) => ({
+			id: row.id,
+			problemId: row.problem_id,
+			startedAt: row.started_at,
+			endedAt: row.ended_at,
+			outcome: isProblemStatus(row.outcome) ? row.outcome : 'attempted',
+			timeSpentSeconds: row.time_spent_seconds ?? undefined,
+		}));
+	}
+
+	// Everyone's progress moves server-side; the caller's comes back as its new version
+	async function mergeProblems(op: Extract<Operation, { type: 'mergeProblems' }>): Promise<ApplyResult> {
+		const { data, error } = await supabase.rpc('merge_problems', {
+			p_keep_id: op.problemId,
+			p_merged_ids: op.merged.map((m) => m.problemId),
+			p_client_id: CLIENT_ID,
+		});
+		if (error) throw error;
+		const version = (data as { progress_updated_at?: string | null } | null)?.progress_updated_at;
+		return {
+			versions: version ? [{ categoryId: op.categoryId, problemId: op.problemId, field: 'progressUpdatedAt', version }] : [],
+		};
+	}
+
+	async function recordNoteRevision(revision: NoteRevision, ctx: SyncContext): Promise<ApplyResult> {
+		const { error } = await supabase.from('note_revisions').insert({
+			id: revision.id,
+			user_id: ctx.userId,
+			problem_id: revision.problemId,
+			note: revision.note,
+			saved_at: revision.savedAt,
+		});
+		// 23505: an earlier try got through before the response was lost
+		if (error && error.code !== '23505') throw error;
+		return { versions: [] };
+	}
+
+	async function loadNoteRevisions(problemId: string): Promise<NoteRevision[]> {
+		const { data: sessionData } = await supabase.auth.getSession();
+		const userId = sessionData.session?.user.id;
+		// Visitors have nowhere to keep a history
+		if (!userId) return [];
+		const { data, error } = await supabase
+			.from('note_revisions')
+			.select('id, problem_id, note, saved_at')
+			.eq('user_id', userId)
+			.eq('problem_id', problemId)
+			.order('saved_at', { ascending: false });
+		if (error) throw error;
+		return (data ?? []).map((row: any) => ({ id: row.id, problemId: row.problem_id, note: row.note ?? '', savedAt: row.saved_at }));
+	}
+
+	// --- Personal categories and problems: the user's own rows, written directly under RLS ---
+	async function applyPersonalOperation(op: CatalogOperation, ctx: SyncContext): Promise<ApplyResult> {
+		if (!ctx.catalogId) return { versions: [] };
+		const owner = { user_id: ctx.userId, catalog_id: ctx.catalogId, client_id: CLIENT_ID };
+
+		switch (op.type) {
+			case 'createCategory': {
+				const row = { id: op.categoryId, title: op.title, order_index: op.orderIndex, parent_id: op.parentId ?? null, ...owner };
+				const { data, error } = await supabase.from('personal_categories').upsert(row).select('updated_at');
+				if (error) throw error;
+				return { versions: data?.length ? [{ categoryId: op.categoryId, field: 'updatedAt', version: data[0].updated_at }] : [] };
+			}
+			case 'updateCategory': {
+				const result = await updatePersonalRow('personal_categories', op.categoryId, op.changes, op.baseVersion);
+				if (result.version) return { versions: [{ categoryId: op.categoryId, field: 'updatedAt', version: result.version }] };
+				if (!result.server) return { versions: [] };
+				return {
+					versions: [],
+					conflict: {
+						kind: 'category',
+						categoryId: op.categoryId,
+						local: op.changes,
+						server: pickFields(result.server, CATEGORY_FIELDS),
+						serverVersion: result.server.updated_at,
+					},
+				};
+			}
+			case 'deleteCategory': {
+				// Sub-categories and their problems go with it (ON DELETE CASCADE)
+				const { error } = await supabase.from('personal_categories').delete().eq('id', op.categoryId);
+				if (error) throw error;
+				return { versions: [] };
+			}
+			case 'reorderCategories': {
+				const versions = await Promise.all(
+					op.order.map(async ({ categoryId, orderIndex, parentId }): Promise<RecordVersion[]> => {
+						const changes = { order_index: orderIndex, ...(parentId !== undefined ? { parent_id: parentId } : {}) };
+						const { version } = await updatePersonalRow('personal_categories', categoryId, changes);
+						return version ? [{ categoryId, field: 'updatedAt', version }] : [];
+					})
+				);
+				return { versions: versions.flat() };
+			}
+			case 'addProblem': {
+				const { problem } = op;
+				const row = {
+					id: problem.id,
+					category_id: op.categoryId,
+					title: problem.title,
+					url: problem.url,
+					platform: problem.platform,
+					external_id: problem.externalId ?? null,
+					difficulty: problem.difficulty,
+					tags: problem.tags ?? [],
+					status: problem.status,
+					note: problem.note ?? '',
+					review: problem.review ?? null,
+					solutions: problem.solutions ?? [],
+					order_index: op.orderIndex ?? 0,
+					...owner,
+				};
+				const { data, error } = await supabase.from('personal_problems').upsert(row).select('updated_at');
+				if (error) throw error;
+				return {
+					versions: data?.length ? [{ categoryId: op.categoryId, problemId: problem.id, field: 'updatedAt', version: data[0].updated_at }] : [],
+				};
+			}
+			case 'updateProblem': {
+				const result = await updatePersonalRow('personal_problems', op.problemId, toProblemColumns(op.changes), op.baseVersion);
+				if (result.version) {
+					return { versions: [{ categoryId: op.categoryId, problemId: op.problemId, field: 'updatedAt', version: result.version }] };
+				}
+				if (!result.server) return { versions: [] };
+				return {
+					versions: [],
+					conflict: {
+						kind: 'problem',
+						categoryId: op.categoryId,
+						problemId: op.problemId,
+						local: op.changes,
+						server: pickFields(fromProblemColumns(result.server), PERSONAL_PROBLEM_FIELDS),
+						serverVersion: result.server.updated_at,
+					},
+				};
+			}
+			case 'deleteProblem': {
+				const { error } = await supabase.from('personal_problems').delete().eq('id', op.problemId);
+				if (error) throw error;
+				return { versions: [] };
+			}
+			case 'reorderProblems': {
+				const versions = await Promise.all(
+					op.order.map(async ({ problemId, categoryId, orderIndex }): Promise<RecordVersion[]> => {
+						const { version } = await updatePersonalRow('personal_problems', problemId, { category_id: categoryId, order_index: orderIndex });
+						return version ? [{ categoryId, problemId, field: 'updatedAt', version }] : [];
+					})
+				);
+				return { versions: versions.flat() };
+			}
+		}
+	}
+
+	// Update one of the user's own rows, only while it is still at the version we loaded.
+	// Returns the new version, or the server's row when it has moved on (neither when it is gone).
+	async function updatePersonalRow(
+		table: 'personal_categories' | 'personal_problems',
+		id: string,
+		changes: Record<string, unknown>,
+		baseVersion?: string
+	): Promise<{ version?: string; server?: Record<string, any> }> {
+		let update = supabase.from(table).update({ ...changes, client_id: CLIENT_ID }).eq('id', id);
+		if (baseVersion) update = update.eq('updated_at', baseVersion);
+		const { data, error } = await update.select('updated_at');
+		if (error) throw error;
+		if (data && data.length > 0) return { version: data[0].updated_at };
+
+		const { data: server, error: serverError } = await supabase.from(table).select('*').eq('id', id).maybeSingle();
+		if (serverError) throw serverError;
+		return server ? { server } : {};
+	}
+
+	// Translate a queued catalog operation into a save_catalog change set
+	function toChangeSet(op: CatalogOperation): CatalogChangeSet {
+		switch (op.type) {
+			case 'createCategory':
+				return { categories: [{ id: op.categoryId, title: op.title, order_index: op.orderIndex, parent_id: op.parentId ?? null }] };
+			case 'updateCategory':
+				return {
+					categories: [{ id: op.categoryId, ...op.changes, ...(op.baseVersion ? { base_updated_at: op.baseVersion } : {}) }],
+				};
+			case 'deleteCategory':
+				return { deletedCategoryIds: [op.categoryId] };
+			case 'reorderCategories':
+				return {
+					categories: op.order.map(({ categoryId, orderIndex, parentId }) => ({
+						id: categoryId,
+						order_index: orderIndex,
+						...(parentId !== undefined ? { parent_id: parentId } : {}),
+					})),
+				};
+			case 'addProblem':
+				return {
+					problems: [{
+						id: op.problem.id,
+						category_id: op.categoryId,
+						title: op.problem.title,
+						url: op.problem.url,
+						platform: op.problem.platform,
+						external_id: op.problem.externalId ?? null,
+						difficulty: op.problem.difficulty,
+						tags: op.problem.tags ?? [],
+						...(op.orderIndex !== undefined ? { order_index: op.orderIndex } : {}),
+					}],
+				};
+			case 'updateProblem':
+				return {
+					problems: [{ id: op.problemId, ...toProblemColumns(op.changes), ...(op.baseVersion ? { base_updated_at: op.baseVersion } : {}) }],
+				};
+			case 'deleteProblem':
+				return { deletedProblemIds: [op.problemId] };
+			case 'reorderProblems':
+				return {
+					problems: op.order.map(({ problemId, categoryId, orderIndex }) => ({
+						id: problemId,
+						category_id: categoryId,
+						order_index: orderIndex,
+					})),
+				};
+		}
+	}
+
+	// Apply a change set in one transaction through the save_catalog function, so a
+	// failure part way through never leaves the catalog half written
+	async function saveCatalog(catalogId: string, op: Operation, changes: CatalogChangeSet): Promise<ApplyResult> {
+		const { data, error } = await supabase.rpc('save_catalog', {
+			p_catalog_id: catalogId,
+			p_categories: changes.categories ?? [],
+			p_problems: changes.problems ?? [],
+			p_deleted_problem_ids: changes.deletedProblemIds ?? [],
+			p_deleted_category_ids: changes.deletedCategoryIds ?? [],
+			p_client_id: CLIENT_ID,
+		});
+		if (error) throw error;
+
+		const result = (data ?? {}) as SaveCatalogResult;
+		// Where each written problem now lives: named by the entry when it moves, else by the operation
+		const problemCategories = new Map(
+			(changes.problems ?? []).map((entry) => [
+				String(entry.id),
+				(entry.category_id as string | undefined) ?? ('categoryId' in op ? op.categoryId : undefined),
+			])
+		);
+		const versions: RecordVersion[] = [
+			...(result.categories ?? []).map((row): RecordVersion => ({ categoryId: row.id, field: 'updatedAt', version: row.updated_at })),
+			...(result.problems ?? []).flatMap((row): RecordVersion[] => {
+				const categoryId = problemCategories.get(row.id);
+				return categoryId ? [{ categoryId, problemId: row.id, field: 'updatedAt', version: row.updated_at }] : [];
+			}),
+		];
+
+		// A conditional write found a newer server row
+		const conflict = (result.conflicts ?? []).find((c) => c.row);
+		if (!conflict?.row) return { versions };
+		const local = { ...(changes.categories?.[0] ?? changes.problems?.[0]) };
+		delete local.id;
+		delete local.base_updated_at;
+		if (conflict.table === 'categories') {
+			return {
+				versions,
+				conflict: {
+					kind: 'category',
+					categoryId: conflict.row.id,
+					local,
+					server: pickFields(conflict.row, CATEGORY_FIELDS),
+					serverVersion: conflict.row.updated_at,
+				},
+			};
+		}
+		const problemCategoryId = problemCategories.get(conflict.row.id);
+		if (!problemCategoryId) return { versions };
+		return {
+			versions,
+			conflict: {
+				kind: 'problem',
+				categoryId: problemCategoryId,
+				problemId: conflict.row.id,
+				local: fromProblemColumns(local),
+				server: pickFields(fromProblemColumns(conflict.row), PROBLEM_FIELDS),
+				serverVersion: conflict.row.updated_at,
+			},
+		};
+	}
+
+	// --- Auth helpers (for gating write access) ---
+	async function getIsAuthenticated(): Promise<boolean> {
+		try {
+			const { data, error } = await supabase.auth.getSession();
+
+			if (error) {
+				console.error('Auth check error:', error);
+				return false;
+			}
+
+			return Boolean(data.session);
+		} catch (e) {
+			console.error('Auth check error:', e);
+			return false;
+		}
+	}
+
+	async function signUpWithEmail(email: string, password: string, userData: SignUpData): Promise<{ error?: string }> {
+		try {
+			const { data, error } = await supabase.auth.signUp({
+				email,
+				password,
+				options: {
+					data: userData
+				}
+			});
+
+			if (error) {
+				// Handle specific error cases
+				if (error.message.includes('already registered') || error.message.includes('already exists') || error.message.includes('User already registered')) {
+					return { error: 'An account with this email already exists. Please sign in instead.' };
+				}
+				if (error.message.includes('password')) {
+					return { error: 'Password must be at least 6 characters long.' };
+				}
+				if (error.message.includes('email')) {
+					return { error: 'Please enter a valid email address.' };
+				}
+				return { error: `Signup failed: ${error.message}` };
+			}
+
+			// Store additional user data in a separate profiles table
+			if (data.user) {
+				const { error: profileError } = await supabase
+					.from('user_profiles')
+					.insert({
+						user_id: data.user.id,
+						name: userData.name,
+						dob: userData.dob,
+						university: userData.university,
+						city: userData.city,
+						country: userData.country,
+						state: userData.state,
+						email: email
+					});
+
+				if (profileError) {
+					console.error('Profile creation error:', profileError);
+				}
+			}
+
+			return { error: undefined };
+		} catch (e) {
+			return { error: e instanceof Error ? e.message : 'Sign up failed' };
+		}
+	}
+
+	async function signInWithEmail(email: string, password: string): Promise<{ error?: string }> {
+		try {
+			const { error } = await supabase.auth.signInWithPassword({
+				email,
+				password
+			});
+
+			if (error) {
+				// Handle specific sign-in error cases
+				if (error.message.includes('Invalid login credentials')) {
+					return { error: 'Invalid email or password. Please check your credentials.' };
+				}
+				if (error.message.includes('Email not confirmed')) {
+					return { error: 'Please check your email and confirm your account before signing in.' };
+				}
+				return { error: error.message };
+			}
+
+			return { error: undefined };
+		} catch (e) {
+			return { error: 'Sign in failed. Please try again.' };
+		}
+	}
+
+	async function signOut(): Promise<void> {
+		try {
+			await supabase.auth.signOut();
+		} catch (e) {
+			console.error('Sign out error:', e);
+		}
+	}
+
+	// Helper function to try password reset (this might help with stale accounts)
+	async function resetPassword(email: string): Promise<{ error?: string }> {
+		try {
+			const { error } = await supabase.auth.resetPasswordForEmail(email, {
+				redirectTo: window.location.origin
+			});
+
+			if (error) {
+				return { error: error.message };
+			}
+
+			return { error: undefined };
+		} catch (e) {
+			return { error: 'Password reset failed' };
+		}
+	}
+
+	function onAuthChange(cb: (isAuthed: boolean) => void): () => void {
+		try {
+			const { data: sub } = supabase.auth.onAuthStateChange((event: AuthChangeEvent, session: Session | null) => {
+				// Use the session directly instead of making another API call
+				const authed = Boolean(session);
+				cb(authed);
+			});
+			return () => sub.subscription.unsubscribe();
+		} catch (e) {
+			console.error('Auth change subscription error:', e);
+			return () => {};
+		}
+	}
+
+	function getSession(): Promise<SessionInfo> {
+		if (!sessionInfo) {
+			const loading = fetchSession();
+			sessionInfo = loading;
+			// Let the next call try again rather than caching a failure
+			loading.catch(() => {
+				if (sessionInfo === loading) sessionInfo = null;
+			});
+		}
+		return sessionInfo;
+	}
+
+	// The catalog the user picked last on this device wins while they can still read it.
+	// Otherwise members work on the catalog where they hold the strongest role, then the
+	// first sheet they subscribed to; everyone else reads the first public catalog.
+	// The profile was written at sign-up.
+	async function fetchSession(): Promise<SessionInfo> {
+		const { data: sessionData } = await supabase.auth.getSession();
+		const user = sessionData.session?.user;
+		const chosen = readChosenCatalog();
+
+		const readable = async (catalogId: string | null) => {
+			if (!catalogId) return null;
+			const { data, error } = await supabase.from('catalogs').select('id').eq('id', catalogId).maybeSingle();
+			if (error) console.error('Catalog lookup error:', error);
+			return data?.id ?? null;
+		};
+		const publicCatalog = async () => {
+			const { data, error } = await supabase
+				.from('catalogs')
+				.select('id')
+				.eq('is_public', true)
+				.order('created_at', { ascending: true })
+				.limit(1)
+				.maybeSingle();
+			if (error) console.error('Catalog lookup error:', error);
+			return data?.id ?? null;
+		};
+
+		if (!user) {
+			return { user: null, profile: null, catalogId: (await readable(chosen)) ?? (await publicCatalog()), role: null, isAdmin: false };
+		}
+
+		const [{ roles, subscribed }, profile, admin] = await Promise.all([
+			loadMemberships(user.id),
+			supabase
+				.from('user_profiles')
+				.select('name, dob, university, city, country, state, email')
+				.eq('user_id', user.id)
+				.limit(1)
+				.maybeSingle(),
+			supabase.rpc('is_admin'),
+		]);
+		if (profile.error) console.error('Profile lookup error:', profile.error);
+		if (admin.error) console.error('Admin lookup error:', admin.error);
+
+		const strongest = [...roles].sort(([, a], [, b]) => ROLE_RANK[a] - ROLE_RANK[b])[0]?.[0];
+		const catalogId =
+			(chosen && roles.has(chosen) ? chosen : await readable(chosen)) ?? strongest ?? subscribed[0] ?? (await publicCatalog());
+		return {
+			user: { id: user.id, email: user.email },
+			profile: profile.data ?? null,
+			catalogId,
+			role: (catalogId && roles.get(catalogId)) || 'viewer',
+			isAdmin: admin.data === true,
+		};
+	}
+
+	// The user's role in each catalog they belong to, and the catalogs they subscribe to (oldest first)
+	async function loadMemberships(userId: string): Promise<{ roles: Map<string, CatalogRole>; subscribed: string[] }> {
+		const [memberships, subscriptions] = await Promise.all([
+			supabase.from('catalog_members').select('catalog_id, role').eq('user_id', userId),
+			supabase.from('catalog_subscriptions').select('catalog_id').eq('user_id', userId).order('created_at', { ascending: true }),
+		]);
+		if (memberships.error) console.error('Membership lookup error:', memberships.error);
+		if (subscriptions.error) console.error('Subscription lookup error:', subscriptions.error);
+		return {
+			roles: new Map((memberships.data ?? []).map((m: any) => [m.catalog_id, m.role as CatalogRole])),
+			subscribed: (subscriptions.data ?? []).map((s: any) => s.catalog_id),
+		};
+	}
+
+	// --- Catalogs ---
+	function readChosenCatalog(): string | null {
+		try {
+			return localStorage.getItem(CHOSEN_CATALOG_KEY);
+		} catch {
+			return null;
+		}
+	}
+
+	async function listCatalogs(): Promise<Catalog[]> {
+		const { data: sessionData } = await supabase.auth.getSession();
+		const userId = sessionData.session?.user.id;
+		const [catalogs, memberships, progress] = await Promise.all([
+			// RLS lets through public catalogs and those the user belongs to
+			supabase.from('catalogs').select('id, title, description, is_public, created_by').order('created_at', { ascending: true }),
+			userId ? loadMemberships(userId) : Promise.resolve({ roles: new Map<string, CatalogRole>(), subscribed: [] as string[] }),
+			userId ? loadSheetProgress() : Promise.resolve(new Map<string, Partial<Record<ProblemStatus, number>>>()),
+		]);
+		if (catalogs.error) throw catalogs.error;
+		return (catalogs.data ?? []).map((row: any) => ({
+			id: row.id,
+			title: row.title,
+			description: row.description ?? '',
+			isPublic: !!row.is_public,
+			ownerId: row.created_by ?? null,
+			role: memberships.roles.get(row.id) ?? null,
+			subscribed: memberships.subscribed.includes(row.id),
+			...(progress.has(row.id) ? { progress: progress.get(row.id) } : {}),
+		}));
+	}
+
+	// Problems per status on each of the user's sheets. Only for display, so a failure leaves it out.
+	async function loadSheetProgress(): Promise<Map<string, Partial<Record<ProblemStatus, number>>>> {
+		const progress = new Map<string, Partial<Record<ProblemStatus, number>>>();
+		const { data, error } = await supabase.rpc('sheet_progress');
+		if (error) {
+			console.error('Sheet progress lookup error:', error);
+			return progress;
+		}
+		(data ?? []).forEach((row: any) => {
+			const status: unknown = row.problem_status;
+			if (!isProblemStatus(status)) return;
+			const counts = progress.get(row.sheet_id) ?? {};
+			counts[status] = (counts[status] ?? 0) + Number(row.problem_count);
+			progress.set(row.sheet_id, counts);
+		});
+		return progress;
+	}
+
+	async function selectCatalog(catalogId: string): Promise<void> {
+		try {
+			localStorage.setItem(CHOSEN_CATALOG_KEY, catalogId);
+		} catch (e) {
+			console.error('Failed to remember the chosen catalog', e);
+		}
+		// The role and catalog both come from the session
+		sessionInfo = null;
+		catalogSwitchListeners.forEach((cb) => cb());
+	}
+
+	async function setSubscribed(catalogId: string, subscribed: boolean): Promise<void> {
+		const { data: sessionData } = await supabase.auth.getSession();
+		const userId = sessionData.session?.user.id;
+		if (!userId) throw new Error('Sign in to subscribe to sheets.');
+		const { error } = subscribed
+			? await supabase.from('catalog_subscriptions').upsert({ user_id: userId, catalog_id: catalogId }, { onConflict: 'user_id,catalog_id' })
+			: await supabase.from('catalog_subscriptions').delete().eq('user_id', userId).eq('catalog_id', catalogId);
+		if (error) throw error;
+	}
+
+	async function createCatalog(details: CatalogDetails): Promise<string> {
+		const id = generateId('cat');
+		const { error } = await supabase.rpc('create_catalog', {
+			p_id: id,
+			p_title: details.title,
+			p_description: details.description,
+			p_is_public: details.isPublic,
+		});
+		if (error) throw error;
+		return id;
+	}
+
+	async function updateCatalog(catalogId: string, details: CatalogDetails): Promise<void> {
+		const { error } = await supabase
+			.from('catalogs')
+			.update({ title: details.title, description: details.description, is_public: details.isPublic })
+			.eq('id', catalogId);
+		if (error) throw error;
+	}
+
+	// --- Realtime: push row changes as patches, skipping echoes of our own writes ---
+	function toRemoteChange(table: string, payload: any, session: SessionInfo | null): RemoteChange | null {
+		const row = payload.new ?? {};
+		const old = payload.old ?? {};
+		if (payload.eventType !== 'DELETE' && row.client_id === CLIENT_ID) return null;
+		// Rows from catalogs other than the one on screen
+		if (table !== 'user_problem_progress' && payload.eventType !== 'DELETE' && row.catalog_id !== session?.catalogId) return null;
+		// RLS already keeps other users' personal rows away; this is belt and braces
+		if (table.startsWith('personal_') && payload.eventType !== 'DELETE' && row.user_id !== session?.user?.id) return null;
+
+		switch (table) {
+			case 'categories':
+				if (payload.eventType === 'DELETE') return { type: 'categoryDelete', categoryId: old.id };
+				return {
+					type: 'categoryUpsert',
+					category: { id: row.id, title: row.title, orderIndex: row.order_index ?? 0, parentId: row.parent_id ?? null, updatedAt: row.updated_at },
+				};
+			case 'problems':
+				if (payload.eventType === 'DELETE') return { type: 'problemDelete', problemId: old.id };
+				return {
+					type: 'problemUpsert',
+					categoryId: row.category_id,
+					orderIndex: row.order_index ?? undefined,
+					problem: {
+						id: row.id,
+						title: row.title,
+						url: row.url,
+						platform: row.platform,
+						externalId: row.external_id ?? undefined,
+						difficulty: row.difficulty,
+						tags: row.tags ?? [],
+						// Progress arrives separately, through user_problem_progress
+						status: 'todo',
+						note: '',
+						updatedAt: row.updated_at,
+					},
+				};
+			case 'personal_categories':
+				if (payload.eventType === 'DELETE') return { type: 'categoryDelete', categoryId: old.id };
+				return {
+					type: 'categoryUpsert',
+					category: {
+						id: row.id,
+						title: row.title,
+						orderIndex: row.order_index ?? 0,
+						parentId: row.parent_id ?? null,
+						personal: true,
+						updatedAt: row.updated_at,
+					},
+				};
+			case 'personal_problems':
+				if (payload.eventType === 'DELETE') return { type: 'problemDelete', problemId: old.id };
+				return {
+					type: 'problemUpsert',
+					categoryId: row.category_id,
+					orderIndex: row.order_index ?? undefined,
+					problem: personalProblem(row),
+					personal: true,
+				};
+			case 'user_problem_progress': {
+				// Owners can read everyone's progress; only our own belongs in the UI
+				const userId = payload.eventType === 'DELETE' ? old.user_id : row.user_id;
+				if (userId && userId !== session?.user?.id) return null;
+				if (payload.eventType === 'DELETE') return old.problem_id ? { type: 'progressDelete', problemId: old.problem_id } : null;
+				return {
+					type: 'progressUpsert',
+					problemId: row.problem_id,
+					status: rowStatus(row),
+					note: row.note ?? '',
+					review: row.review ?? null,
+					solutions: row.solutions ?? [],
+					updatedAt: row.updated_at,
+				};
+			}
+		}
+		return null;
+	}
+
+	function onRemoteChange(cb: (change: RemoteChange) => void): () => void {
+		let current: SessionInfo | null = null;
+		let tracking = 0;
+		const track = () => {
+			// Drop changes until the new session is known, and ignore answers to earlier lookups
+			const lookup = ++tracking;
+			current = null;
+			getSession()
+				.then((session) => {
+					if (lookup === tracking) current = session;
+				})
+				.catch(() => {});
+		};
+		track();
+		const { data: authSub } = supabase.auth.onAuthStateChange(track);
+		// Switching sheets changes which catalog's rows belong on screen
+		catalogSwitchListeners.add(track);
+
+		try {
+			const handle = (table: string) => (payload: any) => {
+				const change = toRemoteChange(table, payload, current);
+				if (change) cb(change);
+			};
+			const channel = supabase
+				.channel('categories-changes')
+				.on('postgres_changes', { event: '*', schema: 'public', table: 'categories' }, handle('categories'))
+				.on('postgres_changes', { event: '*', schema: 'public', table: 'problems' }, handle('problems'))
+				.on('postgres_changes', { event: '*', schema: 'public', table: 'user_problem_progress' }, handle('user_problem_progress'))
+				.on('postgres_changes', { event: '*', schema: 'public', table: 'personal_categories' }, handle('personal_categories'))
+				.on('postgres_changes', { event: '*', schema: 'public', table: 'personal_problems' }, handle('personal_problems'))
+				.subscribe();
+			return () => {
+				authSub.subscription.unsubscribe();
+				catalogSwitchListeners.delete(track);
+				if (channel) supabase.removeChannel(channel);
+			};
+		} catch (e) {
+			console.error('Realtime subscription error:', e);
+			authSub.subscription.unsubscribe();
+			catalogSwitchListeners.delete(track);
+			return () => {};
+		}
+	}
+
+	return {
+		backend: 'supabase',
+		loadData,
+		saveData,
+		getSyncContext,
+		applyOperation,
+		loadAttempts,
+		loadNoteRevisions,
+		listCatalogs,
+		selectCatalog,
+		setSubscribed,
+		createCatalog,
+		updateCatalog,
+		getIsAuthenticated,
+		getSession,
+		signUpWithEmail,
+		signInWithEmail,
+		signOut,
+		resetPassword,
+		onAuthChange,
+		onRemoteChange,
+	};
+}
@@ -0,0 +1,60 @@
+import { Attempt, ProblemStatus } from './types';
+import { generateId } from './utils';
+
+// An attempt starts when a problem is opened from the app and ends when its status
+// is changed. Start times are kept in localStorage so a reload does not lose them.
+
+const STARTS_KEY = 'coding-platform-attempt-starts';
+// Opened longer ago than this and the status change is treated as a separate visit
+const MAX_ATTEMPT_MS = 12 * 60 * 60 * 1000;
+
+function readStarts(): Record<string, number> {
+	try {
+		const parsed = JSON.parse(localStorage.getItem(STARTS_KEY) ?? '{}');
+		return parsed && typeof parsed === 'object' ? parsed : {};
+	} catch {
+		return {};
+	}
+}
+
+function writeStarts(starts: Record<string, number>): void {
+	try {
+		localStorage.setItem(STARTS_KEY, JSON.stringify(starts));
+	} catch (e) {
+		console.error('Failed to save attempt start times', e);
+	}
+}
+
+// Opening the same problem again during an attempt keeps the original start
+export function startAttempt(problemId: string): void {
+	const starts = readStarts();
+	const now = Date.now();
+	Object.keys(starts).forEach((id) => {
+		if (now - starts[id] > MAX_ATTEMPT_MS) delete starts[id];
+	});
+	if (!starts[problemId]) starts[problemId] = now;
+	writeStarts(starts);
+}
+
+export function finishAttempt(problemId: string, outcome: ProblemStatus): Attempt {
+	const starts = readStarts();
+	const now = Date.now();
+	const started = starts[problemId] && now - starts[problemId] <= MAX_ATTEMPT_MS ? starts[problemId] : null;
+	delete starts[problemId];
+	writeStarts(starts);
+	return {
+		id: generateId('a'),
+		problemId,
+		startedAt: new Date(started ?? now).toISOString(),
+		endedAt: new Date(now).toISOString(),
+		outcome,
+		timeSpentSeconds: started ? Math.round((now - started) / 1000) : undefined,
+	};
+}
+
+export function formatDuration(seconds: number): string {
+	if (seconds < 60) return `${seconds}s`;
+	const minutes = Math.round(seconds / 60);
+	if (minutes < 60) return `${minutes}m`;
+	return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
@@ -0,0 +1,386 @@
+import { Category, Difficulty, Operation, Problem, ProblemChanges, ProblemStatus, ReviewSchedule, Solution } from './types';
+import { applyOperationToCategories } from './syncQueue';
+import { isProblemStatus } from './status';
+import { isSolutionLanguage } from './highlight';
+import { categoryPath, generateId, normalizeTags } from './utils';
+
+// The catalog as a JSON file, for backups and for moving a catalog to another Supabase
+// project. Version 1 looks like this (progress only when exported with it):
+//
+// {
+//   "format": "coding-platform-catalog",
+//   "version": 1,
+//   "exportedAt": "2026-10-19T09:30:00.000Z",
+//   "withProgress": true,
+//   "catalogId": "default",
+//   "categories": [
+//     { "id": "c_1", "title": "Arrays", "parentId": null, "problems": [
+//       { "id": "p_1", "title": "Two Sum", "url": "https://leetcode.com/problems/two-sum",
+//         "platform": "LeetCode", "externalId": "leetcode:two-sum", "difficulty": "Easy",
+//         "tags": ["hash map"],
+//         "progress": { "status": "solved", "note": "...", "review": null, "solutions": [] } }
+//     ] }
+//   ]
+// }
+//
+// Categories are listed in display order, each problem list too. Ids are kept, so
+// importing a file again updates what the first import created. catalogId names the
+// sheet the file was exported from (missing in older files): ids are unique across
+// sheets, so importing into a different sheet gives the copy ids of its own, derived
+// from the sheet, and importing again there still finds it. Personal categories are the
+// user's own and are never exported.
+//
+// When the format changes, bump CATALOG_FILE_VERSION and keep reading older files.
+
+export const CATALOG_FILE_FORMAT = 'coding-platform-catalog';
+export const CATALOG_FILE_VERSION = 1;
+
+export interface CatalogFileProgress {
+	status: ProblemStatus;
+	note: string;
+	review: ReviewSchedule | null;
+	solutions: Solution[];
+}
+
+export interface CatalogFileProblem {
+	id: string;
+	title: string;
+	url: string;
+	platform: string;
+	externalId?: string;
+	difficulty: Difficulty;
+	tags: string[];
+	progress?: CatalogFileProgress;
+}
+
+export interface CatalogFileCategory {
+	id: string;
+	title: string;
+	parentId: string | null;
+	problems: CatalogFileProblem[];
+}
+
+export interface CatalogFile {
+	format: typeof CATALOG_FILE_FORMAT;
+	version: number;
+	exportedAt: string;
+	withProgress: boolean;
+	catalogId?: string;
+	categories: CatalogFileCategory[];
+}
+
+export function exportCatalog(categories: Category[], withProgress: boolean, catalogId: string | null): CatalogFile {
+	return {
+		format: CATALOG_FILE_FORMAT,
+		version: CATALOG_FILE_VERSION,
+		exportedAt: new Date().toISOString(),
+		withProgress,
+		...(catalogId ? { catalogId } : {}),
+		categories: categories
+			.filter((c) => !c.personal)
+			.map((c) => ({
+				id: c.id,
+				title: c.title,
+				parentId: c.parentId ?? null,
+				problems: c.problems.map((p) => ({
+					id: p.id,
+					title: p.title,
+					url: p.url,
+					platform: p.platform,
+					...(p.externalId ? { externalId: p.externalId } : {}),
+					difficulty: p.difficulty,
+					tags: p.tags ?? [],
+					...(withProgress
+						? { progress: { status: p.status, note: p.note ?? '', review: p.review ?? null, solutions: p.solutions ?? [] } }
+						: {}),
+				})),
+			})),
+	};
+}
+
+// "catalog-2026-10-19.json"
+export function catalogFileName(date: Date): string {
+	return `catalog-${date.toISOString().slice(0, 10)}.json`;
+}
+
+const DIFFICULTIES: Difficulty[] = ['Easy', 'Medium', 'Hard'];
+
+function isString(value: unknown): value is string {
+	return typeof value === 'string';
+}
+
+function validateProgress(value: any, path: string): CatalogFileProgress {
+	if (!value || typeof value !== 'object') throw new Error(`${path} is not an object`);
+	if (!isProblemStatus(value.status)) throw new Error(`${path} has unknown status`);
+	if (!isString(value.note)) throw new Error(`${path}.note is not a string`);
+	const review = value.review;
+	if (review !== null && (!review || typeof review !== 'object' || !isString(review.due) || ![review.intervalDays, review.ease, review.repetitions].every((n) => typeof n === 'number'))) {
+		throw new Error(`${path}.review is malformed`);
+	}
+	const solutionsValid =
+		Array.isArray(value.solutions) &&
+		value.solutions.every((s: any) => s && typeof s === 'object' && isString(s.id) && isSolutionLanguage(s.language) && isString(s.code));
+	if (!solutionsValid) throw new Error(`${path}.solutions is malformed`);
+	return value as CatalogFileProgress;
+}
+
+function validateProblem(value: any, path: string, withProgress: boolean): CatalogFileProblem {
+	if (!value || typeof value !== 'object') throw new Error(`${path} is not an object`);
+	if (!isString(value.id) || !value.id || !isString(value.title)) throw new Error(`${path} is missing id or title`);
+	if (!isString(value.url) || !isString(value.platform)) throw new Error(`${path} is missing url or platform`);
+	if (value.externalId !== undefined && !isString(value.externalId)) throw new Error(`${path}.externalId is not a string`);
+	if (!DIFFICULTIES.includes(value.difficulty)) throw new Error(`${path} has unknown difficulty`);
+	if (!Array.isArray(value.tags) || !value.tags.every(isString)) throw new Error(`${path}.tags is not a list of strings`);
+	if (withProgress) validateProgress(value.progress, `${path}.progress`);
+	else if (value.progress !== undefined) throw new Error(`${path} has progress in a file exported without it`);
+	return value as CatalogFileProblem;
+}
+
+// Reads an exported file, throwing an error that says what is wrong with it
+export function parseCatalogFile(text: string): CatalogFile {
+	let value: any;
+	try {
+		value = JSON.parse(text);
+	} catch {
+		throw new Error('The file is not JSON');
+	}
+	if (!value || typeof value !== 'object' || value.format !== CATALOG_FILE_FORMAT) throw new Error('The file is not a catalog export');
+	if (!Number.isInteger(value.version) || value.version < 1) throw new Error(`Unknown file version: ${String(value.version)}`);
+	if (value.version > CATALOG_FILE_VERSION) throw new Error(`The file was written by a newer version of the app (version ${value.version})`);
+	if (!isString(value.exportedAt)) throw new Error('exportedAt is not a string');
+	if (typeof value.withProgress !== 'boolean') throw new Error('withProgress is not a boolean');
+	if (value.catalogId !== undefined && !isString(value.catalogId)) throw new Error('catalogId is not a string');
+	if (!Array.isArray(value.categories)) throw new Error('categories is not an array');
+
+	const categoryIds = new Set<string>();
+	const problemIds = new Set<string>();
+	value.categories.forEach((c: any, i: number) => {
+		const at = `categories[${i}]`;
+		if (!c || typeof c !== 'object') throw new Error(`${at} is not an object`);
+		if (!isString(c.id) || !c.id || !isString(c.title)) throw new Error(`${at} is missing id or title`);
+		if (categoryIds.has(c.id)) throw new Error(`${at} repeats category id ${c.id}`);
+		categoryIds.add(c.id);
+		if (c.parentId !== null && !isString(c.parentId)) throw new Error(`${at}.parentId is not a string or null`);
+		if (!Array.isArray(c.problems)) throw new Error(`${at}.problems is not an array`);
+		c.problems.forEach((p: unknown, j: number) => {
+			const problem = validateProblem(p, `${at}.problems[${j}]`, value.withProgress);
+			if (problemIds.has(problem.id)) throw new Error(`${at}.problems[${j}] repeats problem id ${problem.id}`);
+			problemIds.add(problem.id);
+		});
+	});
+
+	// Every parent is in the file, and following parents always reaches the top level
+	const parents = new Map<string, string | null>(value.categories.map((c: CatalogFileCategory) => [c.id, c.parentId]));
+	value.categories.forEach((c: CatalogFileCategory, i: number) => {
+		if (c.parentId !== null && !parents.has(c.parentId)) throw new Error(`categories[${i}] has a parent that is not in the file`);
+		const seen = new Set([c.id]);
+		for (let parent = c.parentId; parent !== null; parent = parents.get(parent) ?? null) {
+			if (seen.has(parent)) throw new Error(`categories[${i}] is nested inside itself`);
+			seen.add(parent);
+		}
+	});
+	return value as CatalogFile;
+}
+
+// One line of the dry run
+export interface ImportChange {
+	kind: 'category' | 'problem';
+	action: 'new' | 'changed' | 'deleted';
+	id: string;
+	title: string;
+	// Where it is (categories: their parents), "Arrays › Easy"
+	path: string;
+	// What a changed record has different, by field name
+	fields?: string[];
+}
+
+export interface ImportPlan {
+	changes: ImportChange[];
+	// Applied in order through the operation queue, like edits made by hand
+	operations: Operation[];
+}
+
+export interface ImportOptions {
+	// Take the status, note, schedule and solutions in the file as the user's own
+	withProgress: boolean;
+	// Leave categories and problems the file does not have alone instead of deleting them
+	keepMissing: boolean;
+	// Only owners may delete categories; for editors they are kept
+	canDeleteCategories: boolean;
+	// The sheet being imported into
+	catalogId: string | null;
+}
+
+// 64 bits of FNV-1a in base 36, for ids derived from other ids
+function hashId(text: string): string {
+	let a = 0x811c9dc5;
+	let b = 0x01000193;
+	for (let i = 0; i < text.length; i++) {
+		a = Math.imul(a ^ text.charCodeAt(i), 0x01000193) >>> 0;
+		b = Math.imul(b ^ text.charCodeAt(i), 0x811c9dc5) >>> 0;
+	}
+	return a.toString(36).padStart(7, '0') + b.toString(36).padStart(7, '0');
+}
+
+// Whether importing the file would make a copy of another sheet rather than update this one
+export function importsIntoOtherSheet(file: CatalogFile, catalogId: string | null): boolean {
+	return !!file.catalogId && !!catalogId && file.catalogId !== catalogId;
+}
+
+// The file with every category and problem given the id its copy has in the sheet
+function copyForSheet(file: CatalogFile, catalogId: string): CatalogFile {
+	const categoryId = (id: string) => `c_${hashId(`${catalogId}:${id}`)}`;
+	return {
+		...file,
+		catalogId,
+		categories: file.categories.map((c) => ({
+			...c,
+			id: categoryId(c.id),
+			parentId: c.parentId === null ? null : categoryId(c.parentId),
+			problems: c.problems.map((p) => ({ ...p, id: `p_${hashId(`${catalogId}:${p.id}`)}` })),
+		})),
+	};
+}
+
+// The fields of next that differ from the problem, compared by content since schedules
+// and solutions read from a file are always new objects
+function problemChanges(problem: Problem, next: ProblemChanges): ProblemChanges {
+	const before: Record<string, unknown> = { ...problem, note: problem.note ?? '', review: problem.review ?? null, solutions: problem.solutions ?? [], tags: problem.tags ?? [] };
+	return Object.fromEntries(Object.entries(next).filter(([field, value]) => JSON.stringify(value) !== JSON.stringify(before[field])));
+}
+
+// What importing the file would do to the catalog on screen: the changes to list in the
+// dry run and the operations that make them. Records are matched by id. Personal
+// categories are left out on both sides.
+export function planImport(current: Category[], exported: CatalogFile, options: ImportOptions): ImportPlan {
+	const file = importsIntoOtherSheet(exported, options.catalogId) ? copyForSheet(exported, options.catalogId!) : exported;
+	const withProgress = options.withProgress && file.withProgress;
+	const changes: ImportChange[] = [];
+	const operations: Operation[] = [];
+	const catalog = current.filter((c) => !c.personal);
+	const personalIds = new Set(current.filter((c) => c.personal).map((c) => c.id));
+	// The catalog as the operations so far leave it
+	let state = catalog;
+	const apply = (op: Operation) => {
+		operations.push(op);
+		state = applyOperationToCategories(state, op);
+	};
+	const fileCategories = file.categories.filter((c) => !personalIds.has(c.id));
+	const fileTree: Category[] = file.categories.map(({ id, title, parentId }) => ({ id, title, parentId, problems: [] }));
+	const filePath = (categoryId: string) => categoryPath(fileTree, categoryId);
+
+	const inFile = new Set(fileCategories.map((c) => c.id));
+	const deletedCategories = options.keepMissing || !options.canDeleteCategories ? [] : catalog.filter((c) => !inFile.has(c.id));
+	const deletedIds = new Set(deletedCategories.map((c) => c.id));
+	// The order the catalog ends up in: the file's, with categories on their way out last
+	const targetOrder = [...fileCategories.map((c) => c.id), ...catalog.filter((c) => !inFile.has(c.id)).map((c) => c.id)];
+
+	// New categories, parents first since a category can only be nested in one that exists
+	const pending = fileCategories.filter((c) => !catalog.some((existing) => existing.id === c.id));
+	pending.forEach((c) => changes.push({ kind: 'category', action: 'new', id: c.id, title: c.title, path: filePath(c.id) }));
+	while (pending.length > 0) {
+		const ready = pending.findIndex((c) => c.parentId === null || state.some((existing) => existing.id === c.parentId));
+		if (ready === -1) break;
+		const [c] = pending.splice(ready, 1);
+		apply({ type: 'createCategory', categoryId: c.id, title: c.title, orderIndex: targetOrder.indexOf(c.id), parentId: c.parentId });
+	}
+
+	fileCategories.forEach((c) => {
+		const existing = catalog.find((e) => e.id === c.id);
+		if (!existing) return;
+		const fields = [
+			...(existing.title !== c.title ? ['title'] : []),
+			...((existing.parentId ?? null) !== c.parentId ? ['parent'] : []),
+		];
+		if (fields.length > 0) changes.push({ kind: 'category', action: 'changed', id: c.id, title: c.title, path: filePath(c.id), fields });
+		if (existing.title !== c.title) {
+			apply({ type: 'updateCategory', categoryId: c.id, changes: { title: c.title }, baseVersion: existing.updatedAt });
+		}
+	});
+
+	// Positions and parents, written only where they differ
+	const categoryOrder = targetOrder
+		.map((categoryId, orderIndex) => {
+			const target = fileCategories.find((c) => c.id === categoryId);
+			const parentId = target ? target.parentId : undefined;
+			const reparented = parentId !== undefined && (state.find((c) => c.id === categoryId)?.parentId ?? null) !== parentId;
+			return { categoryId, orderIndex, ...(reparented ? { parentId } : {}) };
+		})
+		.filter((entry) => state[entry.orderIndex]?.id !== entry.categoryId || 'parentId' in entry);
+	if (categoryOrder.length > 0) apply({ type: 'reorderCategories', order: categoryOrder });
+
+	// Problems the file does not have; those in a deleted category go with it
+	const fileProblems = new Map(fileCategories.flatMap((c) => c.problems.map((p) => [p.id, { categoryId: c.id, problem: p }] as const)));
+	if (!options.keepMissing) {
+		catalog.forEach((c) =>
+			c.problems
+				.filter((p) => !fileProblems.has(p.id))
+				.forEach((p) => {
+					changes.push({ kind: 'problem', action: 'deleted', id: p.id, title: p.title, path: categoryPath(current, c.id) });
+					if (!deletedIds.has(c.id)) apply({ type: 'deleteProblem', categoryId: c.id, problemId: p.id });
+				})
+		);
+	}
+
+	fileCategories.forEach((c) =>
+		c.problems.forEach((entry, orderIndex) => {
+			const found = catalog.flatMap((cat) => cat.problems.map((p) => ({ categoryId: cat.id, problem: p }))).find(({ problem }) => problem.id === entry.id);
+			const catalogPart = {
+				title: entry.title,
+				url: entry.url,
+				platform: entry.platform as Problem['platform'],
+				...(entry.externalId ? { externalId: entry.externalId } : {}),
+				difficulty: entry.difficulty,
+				tags: normalizeTags(entry.tags),
+			};
+			const progressPart = withProgress && entry.progress ? entry.progress : {};
+
+			if (!found) {
+				changes.push({ kind: 'problem', action: 'new', id: entry.id, title: entry.title, path: filePath(c.id) });
+				const problem: Problem = { id: entry.id, ...catalogPart, status: 'todo', note: '' };
+				apply({ type: 'addProblem', categoryId: c.id, problem, orderIndex });
+				// Progress is written apart from the catalog row
+				const progress = problemChanges(problem, progressPart);
+				if (Object.keys(progress).length > 0) apply({ type: 'updateProblem', categoryId: c.id, problemId: entry.id, changes: progress });
+				return;
+			}
+
+			const { categoryId, problem } = found;
+			const changed = problemChanges(problem, { ...catalogPart, ...progressPart });
+			const fields = [...Object.keys(changed), ...(categoryId !== c.id ? ['category'] : [])];
+			if (fields.length > 0) changes.push({ kind: 'problem', action: 'changed', id: entry.id, title: entry.title, path: filePath(c.id), fields });
+			if (Object.keys(changed).length === 0) return;
+			apply({
+				type: 'updateProblem',
+				categoryId,
+				problemId: entry.id,
+				changes: changed,
+				baseVersion: problem.updatedAt,
+				baseProgressVersion: problem.progressUpdatedAt,
+			});
+			// Keep the note being replaced, as an edit by hand would
+			if (changed.note !== undefined && problem.note) {
+				apply({
+					type: 'recordNoteRevision',
+					revision: { id: generateId('nr'), problemId: entry.id, note: problem.note, savedAt: new Date().toISOString() },
+				});
+			}
+		})
+	);
+
+	// Categories and positions, written only where they differ
+	const problemOrder = fileCategories.flatMap((c) =>
+		c.problems
+			.map((p, orderIndex) => ({ problemId: p.id, categoryId: c.id, orderIndex }))
+			.filter(({ problemId, categoryId, orderIndex }) => state.find((s) => s.id === categoryId)?.problems[orderIndex]?.id !== problemId)
+	);
+	if (problemOrder.length > 0) apply({ type: 'reorderProblems', order: problemOrder });
+
+	// Sub-categories go with their parent, so only the outermost deleted ones are deleted
+	deletedCategories.forEach((c) => {
+		changes.push({ kind: 'category', action: 'deleted', id: c.id, title: c.title, path: categoryPath(current, c.id) });
+		if (!c.parentId || !deletedIds.has(c.parentId)) apply({ type: 'deleteCategory', categoryId: c.id });
+	});
+
+	return { changes, operations };
+}
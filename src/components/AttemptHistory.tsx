@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import { Attempt, Problem } from '../types';
+import { loadAttempts } from '../storage';
+import { getPendingOperations } from '../syncQueue';
+import { formatDuration } from '../attempts';
+import { STATUS_LABELS } from '../status';
+import { useSession } from '../session';
+import { StatusIcon } from './StatusPicker';
+
+export interface AttemptHistoryProps {
+	problem: Problem;
+	onClose: () => void;
+}
+
+// Attempts still waiting in the sync queue, so a fresh attempt shows up straight away
+function pendingAttempts(problemId: string): Attempt[] {
+	return getPendingOperations().flatMap((op) => (op.type === 'recordAttempt' && op.attempt.problemId === problemId ? [op.attempt] : []));
+}
+
+export function AttemptHistory({ problem, onClose }: AttemptHistoryProps) {
+	const session = useSession();
+	const [attempts, setAttempts] = useState<Attempt[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		let cancelled = false;
+		loadAttempts(problem.id)
+			.then((loaded) => {
+				if (cancelled) return;
+				const known = new Set(loaded.map((a) => a.id));
+				const merged = [...pendingAttempts(problem.id).filter((a) => !known.has(a.id)), ...loaded];
+				setAttempts(merged.sort((a, b) => b.endedAt.localeCompare(a.endedAt)));
+			})
+			.catch((e) => {
+				console.error('Failed to load attempt history', e);
+				if (!cancelled) setError('Could not load the attempt history.');
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [problem.id]);
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center" style={{ backgroundColor: '#00000080' }}>
+			<div className="bg-layer-02 rounded-lg border border-primary shadow-layer-2 w-[min(90vw,600px)] max-h-[85vh] flex flex-col">
+				<div className="px-4 py-3 border-b border-primary flex items-center justify-between">
+					<div className="text-primary font-semibold">Attempts · {problem.title}</div>
+					<button className="text-tertiary hover:text-primary p-1.5 rounded-md hover:bg-layer-03" onClick={onClose}>
+						<X size={16} />
+					</button>
+				</div>
+				<div className="p-4 overflow-auto text-sm">
+					{error && <div className="text-secondary">{error}</div>}
+					{!error && attempts === null && <div className="text-secondary">Loading…</div>}
+					{attempts?.length === 0 && (
+						<div className="text-secondary">
+							{session.user ? 'No attempts yet. Changing the status records one.' : 'Sign in to keep a history of your attempts.'}
+						</div>
+					)}
+					{attempts && attempts.length > 0 && (
+						<table className="w-full">
+							<thead>
+								<tr className="text-left text-tertiary">
+									<th className="py-1.5 font-medium">Outcome</th>
+									<th className="py-1.5 font-medium">Finished</th>
+									<th className="py-1.5 font-medium text-right">Time spent</th>
+								</tr>
+							</thead>
+							<tbody>
+								{attempts.map((a) => (
+									<tr key={a.id} className="border-t border-primary/20">
+										<td className="py-1.5">
+											<span className="inline-flex items-center gap-2 text-primary">
+												<StatusIcon status={a.outcome} size={14} />
+												{STATUS_LABELS[a.outcome]}
+											</span>
+										</td>
+										<td className="py-1.5 text-secondary">{new Date(a.endedAt).toLocaleString()}</td>
+										<td className="py-1.5 text-secondary text-right">
+											{a.timeSpentSeconds !== undefined ? formatDuration(a.timeSpentSeconds) : '—'}
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+				</div>
+			</div>
+		</div>
+	);
+}
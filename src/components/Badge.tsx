@@ -1,4 +1,5 @@
 import { Difficulty, Platform } from '../types';
+import { platformInfo } from '../platforms';
 
 export function DifficultyBadge({ difficulty }: { difficulty: Difficulty }) {
 	const getDifficultyStyle = (difficulty: Difficulty) => {
@@ -34,42 +35,31 @@ export function DifficultyBadge({ difficulty }: { difficulty: Difficulty }) {
 	);
 }
 
+export function TagBadge({ tag }: { tag: string }) {
+	return (
+		<span
+			className="px-2 py-0.5 rounded-full text-xs border inline-block"
+			style={{
+				backgroundColor: 'var(--layer-03)',
+				color: 'var(--text-secondary)',
+				border: '1px solid var(--border-tertiary)'
+			}}
+		>
+			{tag}
+		</span>
+	);
+}
+
 export function PlatformBadge({ platform }: { platform: Platform }) {
-	const getPlatformStyle = (platform: Platform) => {
-		switch (platform) {
-			case 'GFG':
-				return {
-					backgroundColor: '#2f8d46',
-					color: '#ffffff',
-					border: '1px solid #1e5f2e'
-				};
-			case 'LeetCode':
-				return {
-					backgroundColor: '#ffa116',
-					color: '#000000',
-					border: '1px solid #e68a00'
-				};
-			case 'HackerRank':
-				return {
-					backgroundColor: '#00ea64',
-					color: '#000000',
-					border: '1px solid #00c854'
-				};
-			case 'Codeforces':
-				return {
-					backgroundColor: '#1f8ac0',
-					color: '#ffffff',
-					border: '1px solid #1569a0'
-				};
-		}
-	};
+	const { label, icon: Icon, background, color, border } = platformInfo(platform);
 
 	return (
-		<span 
-			className="px-2 py-0.5 rounded-full text-xs border inline-block"
-			style={getPlatformStyle(platform)}
+		<span
+			className="px-2 py-0.5 rounded-full text-xs border inline-flex items-center gap-1"
+			style={{ backgroundColor: background, color, border: `1px solid ${border}` }}
 		>
-			{platform}
+			<Icon size={12} />
+			{label}
 		</span>
 	);
-} 
\ No newline at end of file
+}
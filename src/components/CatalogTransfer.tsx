@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react';
+import { Download, Upload, X } from 'lucide-react';
+import { Category, Operation } from '../types';
+import { usePermissions, useSession } from '../session';
+import { CatalogFile, ImportChange, catalogFileName, exportCatalog, importsIntoOtherSheet, parseCatalogFile, planImport } from '../catalogFile';
+
+export interface CatalogTransferProps {
+	categories: Category[];
+	onImport: (operations: Operation[]) => void;
+	onClose: () => void;
+}
+
+const ACTION_LABELS: Record<ImportChange['action'], string> = { new: 'New', changed: 'Changed', deleted: 'Deleted' };
+
+const ACTION_COLORS: Record<ImportChange['action'], string> = {
+	new: 'var(--green-60)',
+	changed: 'var(--yellow-60)',
+	deleted: 'var(--red-60)',
+};
+
+// Downloads text as a file, without a round trip to a server
+function download(name: string, text: string) {
+	const url = URL.createObjectURL(new Blob([text], { type: 'application/json' }));
+	const link = document.createElement('a');
+	link.href = url;
+	link.download = name;
+	link.click();
+	URL.revokeObjectURL(url);
+}
+
+// Export the catalog to a JSON file, and import one after a dry run of what it would change
+export function CatalogTransfer({ categories, onImport, onClose }: CatalogTransferProps) {
+	const { catalogId } = useSession();
+	const { canEditCatalog, canDeleteCategories, canTrackProgress } = usePermissions();
+	const [exportProgress, setExportProgress] = useState(false);
+	const [file, setFile] = useState<{ name: string; contents: CatalogFile } | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const [importProgress, setImportProgress] = useState(true);
+	const [keepMissing, setKeepMissing] = useState(false);
+
+	const plan = useMemo(
+		() =>
+			file
+				? planImport(categories, file.contents, { withProgress: importProgress && canTrackProgress, keepMissing, canDeleteCategories, catalogId })
+				: null,
+		[categories, file, importProgress, canTrackProgress, keepMissing, canDeleteCategories, catalogId]
+	);
+
+	const handleExport = () => {
+		const contents = exportCatalog(categories, exportProgress, catalogId);
+		download(catalogFileName(new Date()), JSON.stringify(contents, null, 2));
+	};
+
+	const handleFile = async (chosen: File | undefined) => {
+		setFile(null);
+		setError(null);
+		if (!chosen) return;
+		try {
+			setFile({ name: chosen.name, contents: parseCatalogFile(await chosen.text()) });
+		} catch (err) {
+			setError(err instanceof Error ? err.message : String(err));
+		}
+	};
+
+	const handleImport = () => {
+		if (!plan) return;
+		onImport(plan.operations);
+		setFile(null);
+	};
+
+	const count = (action: ImportChange['action']) => plan?.changes.filter((c) => c.action === action).length ?? 0;
+
+	return (
+		<div className="bg-layer-02 rounded-xl border border-primary overflow-hidden shadow-layer-1">
+			<div className="flex items-center justify-between px-6 py-4">
+				<span className="font-semibold text-primary text-lg">Export and import</span>
+				<button className="text-tertiary hover:text-primary p-1.5 rounded-md hover:bg-layer-03" onClick={onClose} title="Close">
+					<X size={16} />
+				</button>
+			</div>
+			<div className="px-6 pb-6 space-y-6">
+				<div className="space-y-2">
+					<div className="text-sm text-secondary">
+						Download the catalog as a JSON file, to keep as a backup, to copy into another sheet, or to move to another Supabase
+						project. Personal categories are not included.
+					</div>
+					<div className="flex flex-wrap items-center gap-4">
+						<label className="inline-flex items-center gap-2 text-sm text-secondary">
+							<input type="checkbox" checked={exportProgress} onChange={(e) => setExportProgress(e.target.checked)} />
+							Include my progress, notes and solutions
+						</label>
+						<button
+							className="inline-flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium hover:opacity-80 transition-opacity"
+							style={{ backgroundColor: 'var(--blue-60)', color: 'var(--text-reverse)' }}
+							onClick={handleExport}
+						>
+							<Download size={14} /> Export
+						</button>
+					</div>
+				</div>
+
+				{canEditCatalog && (
+					<div className="space-y-3">
+						<div className="text-sm text-secondary">
+							Import an exported file. Categories and problems are matched by id; nothing changes until you apply the import. A file
+							exported from another sheet is imported as a copy, with ids of its own.
+						</div>
+						<label className="inline-flex items-center gap-2 rounded-md px-3 py-1.5 text-sm font-medium cursor-pointer hover:bg-layer-03 border border-primary text-primary">
+							<Upload size={14} /> {file ? file.name : 'Choose a file'}
+							<input
+								type="file"
+								accept="application/json,.json"
+								className="hidden"
+								onChange={(e) => {
+									handleFile(e.target.files?.[0]);
+									e.target.value = '';
+								}}
+							/>
+						</label>
+						{error && (
+							<div className="text-sm" style={{ color: 'var(--red-60)' }}>
+								This file cannot be imported: {error}
+							</div>
+						)}
+
+						{file && plan && (
+							<>
+								<div className="flex flex-wrap gap-4">
+									{file.contents.withProgress && canTrackProgress && (
+										<label className="inline-flex items-center gap-2 text-sm text-secondary">
+											<input type="checkbox" checked={importProgress} onChange={(e) => setImportProgress(e.target.checked)} />
+											Take my progress, notes and solutions from the file
+										</label>
+									)}
+									<label className="inline-flex items-center gap-2 text-sm text-secondary">
+										<input type="checkbox" checked={keepMissing} onChange={(e) => setKeepMissing(e.target.checked)} />
+										Keep categories and problems the file does not have
+									</label>
+								</div>
+								{importsIntoOtherSheet(file.contents, catalogId) && (
+									<div className="text-xs text-tertiary">
+										This file was exported from another sheet, so its categories and problems are added to this one as a copy.
+									</div>
+								)}
+								{!keepMissing && !canDeleteCategories && (
+									<div className="text-xs text-tertiary">Only the sheet's owner can delete categories, so categories the file does not have are kept.</div>
+								)}
+
+								{plan.changes.length === 0 ? (
+									<div className="text-sm text-secondary">The catalog already matches the file.</div>
+								) : (
+									<>
+										<div className="text-sm text-secondary">
+											{count('new')} new, {count('changed')} changed and {count('deleted')} deleted:
+										</div>
+										<div className="rounded-md border border-primary overflow-auto max-h-96">
+											<table className="min-w-full text-sm">
+												<thead className="text-left text-secondary border-b border-primary">
+													<tr>
+														<th className="px-4 py-2 font-medium">Change</th>
+														<th className="px-4 py-2 font-medium">Title</th>
+														<th className="px-4 py-2 font-medium">Where</th>
+														<th className="px-4 py-2 font-medium">What</th>
+													</tr>
+												</thead>
+												<tbody>
+													{plan.changes.map((change) => (
+														<tr key={`${change.kind}-${change.id}`} className="border-b border-primary/20">
+															<td className="px-4 py-2 whitespace-nowrap font-medium" style={{ color: ACTION_COLORS[change.action] }}>
+																{ACTION_LABELS[change.action]} {change.kind}
+															</td>
+															<td className="px-4 py-2 text-primary">{change.title}</td>
+															<td className="px-4 py-2 whitespace-nowrap text-secondary">{change.path}</td>
+															<td className="px-4 py-2 text-tertiary">{change.fields?.join(', ')}</td>
+														</tr>
+													))}
+												</tbody>
+											</table>
+										</div>
+										<div className="flex justify-end">
+											<button
+												className="px-3 py-1.5 rounded-md text-xs font-medium hover:opacity-80 transition-opacity"
+												style={{ backgroundColor: 'var(--teal-60)', color: 'var(--text-reverse)' }}
+												onClick={handleImport}
+											>
+												Apply the import
+											</button>
+										</div>
+									</>
+								)}
+							</>
+						)}
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
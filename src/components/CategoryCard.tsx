@@ -1,40 +1,132 @@
-import { Category, Difficulty, Problem } from '../types';
+import { Category, Problem, ProblemStatus } from '../types';
 import { countCompleted } from '../utils';
-import { ChevronDown, ChevronRight, Trash2, Edit2 } from 'lucide-react';
-import { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Trash2, Edit2, Lock } from 'lucide-react';
+import { ReactNode, useState } from 'react';
 import { ProblemRow } from './ProblemRow';
+import { categoryPermissions, usePermissions } from '../session';
+import { DuplicateMatch } from '../duplicates';
 
 export interface CategoryCardProps {
 	category: Category;
+	// Statuses that count as done in the progress bar
+	countedStatuses: ProblemStatus[];
 	onDeleteCategory: () => void;
 	onUpdateCategory: (updates: Partial<Category>) => void;
 	onUpdateProblem: (problemId: string, updater: (p: Problem) => Problem) => void;
+	onChangeStatus: (problemId: string, status: ProblemStatus) => void;
 	onDeleteProblem: (problemId: string) => void;
-	readOnly?: boolean;
-	// Optional drag-and-drop props for reordering categories
-	draggable?: boolean;
-	onDragStart?: (e: React.DragEvent<HTMLDivElement>) => void;
-	onDragOver?: (e: React.DragEvent<HTMLDivElement>) => void;
-	onDrop?: (e: React.DragEvent<HTMLDivElement>) => void;
-	onDragEnd?: (e: React.DragEvent<HTMLDivElement>) => void;
-	progressReadOnly?: boolean;
+	// Problems elsewhere with the same link as url, other than problemId
+	findDuplicates: (url: string, problemId: string) => DuplicateMatch[];
+	// Problems of this category and every sub-category, for the rolled-up progress bar
+	rollupProblems: Problem[];
+	// Sub-category cards, shown under this category's problems
+	children?: ReactNode;
+	// Drop a dragged category in front of this one, or inside it as its last sub-category
+	onMoveCategory?: (categoryId: string, position: 'before' | 'inside') => void;
+	// Drop a dragged problem in front of another one, or at the end of this category when null
+	onMoveProblem?: (problemId: string, fromCategoryId: string, beforeProblemId: string | null) => void;
 }
 
-export function CategoryCard({ category, onDeleteCategory, onUpdateCategory, onUpdateProblem, onDeleteProblem, readOnly, draggable, onDragStart, onDragOver, onDrop, onDragEnd, progressReadOnly }: CategoryCardProps) {
+const PROBLEM_DRAG_TYPE = 'application/x-problem';
+const CATEGORY_DRAG_TYPE = 'application/x-category';
+
+function isProblemDrag(e: React.DragEvent): boolean {
+	return Array.from(e.dataTransfer.types).includes(PROBLEM_DRAG_TYPE);
+}
+
+function isCategoryDrag(e: React.DragEvent): boolean {
+	return Array.from(e.dataTransfer.types).includes(CATEGORY_DRAG_TYPE);
+}
+
+export function CategoryCard({ category, countedStatuses, onDeleteCategory, onUpdateCategory, onUpdateProblem, onChangeStatus, onDeleteProblem, findDuplicates, rollupProblems, children, onMoveCategory, onMoveProblem }: CategoryCardProps) {
+	const { canEditCatalog, canDeleteCategories } = categoryPermissions(usePermissions(), category);
+	const readOnly = !canEditCatalog;
 	const [open, setOpen] = useState(true);
 	const [editing, setEditing] = useState(false);
 	const [title, setTitle] = useState(category.title);
 
-	const total = category.problems.length;
-	const done = countCompleted(category.problems);
+	const total = rollupProblems.length;
+	const done = countCompleted(rollupProblems, countedStatuses);
+
+	const problemsDraggable = canEditCatalog && Boolean(onMoveProblem);
+	const categoryDraggable = canEditCatalog && Boolean(onMoveCategory);
+
+	// Nested cards sit inside each other, so every handler stops the event at the innermost card
+	function handleCategoryDragStart(e: React.DragEvent<HTMLDivElement>) {
+		e.stopPropagation();
+		try {
+			e.dataTransfer.effectAllowed = 'move';
+			e.dataTransfer.setData(CATEGORY_DRAG_TYPE, category.id);
+			e.currentTarget.style.opacity = '0.5';
+		} catch {}
+	}
+
+	function handleCategoryDragOver(e: React.DragEvent<HTMLElement>) {
+		if (!isCategoryDrag(e)) return;
+		e.preventDefault();
+		e.stopPropagation();
+	}
+
+	function handleCategoryDrop(position: 'before' | 'inside') {
+		return (e: React.DragEvent<HTMLElement>) => {
+			if (!isCategoryDrag(e) || !onMoveCategory) return;
+			e.preventDefault();
+			e.stopPropagation();
+			const categoryId = e.dataTransfer.getData(CATEGORY_DRAG_TYPE);
+			if (categoryId && categoryId !== category.id) onMoveCategory(categoryId, position);
+		};
+	}
+
+	function handleCategoryDragEnd(e: React.DragEvent<HTMLDivElement>) {
+		e.stopPropagation();
+		e.currentTarget.style.opacity = '1';
+	}
+
+	// The header takes both kinds of drop: problems go to the end, categories go inside
+	function handleHeaderDragOver(e: React.DragEvent<HTMLElement>) {
+		if (problemsDraggable) handleProblemDragOver(e);
+		if (categoryDraggable) handleCategoryDragOver(e);
+	}
+
+	function handleHeaderDrop(e: React.DragEvent<HTMLElement>) {
+		if (problemsDraggable) handleProblemDrop(null)(e);
+		if (categoryDraggable) handleCategoryDrop('inside')(e);
+	}
+
+	function handleProblemDragStart(problemId: string) {
+		return (e: React.DragEvent<HTMLTableRowElement>) => {
+			// Not a category drag: keep it away from the card's own handlers
+			e.stopPropagation();
+			try {
+				e.dataTransfer.effectAllowed = 'move';
+				e.dataTransfer.setData(PROBLEM_DRAG_TYPE, JSON.stringify({ problemId, categoryId: category.id }));
+				e.currentTarget.style.opacity = '0.5';
+			} catch {}
+		};
+	}
+
+	function handleProblemDragOver(e: React.DragEvent<HTMLElement>) {
+		if (!isProblemDrag(e)) return;
+		e.preventDefault();
+		e.stopPropagation();
+	}
+
+	function handleProblemDrop(beforeProblemId: string | null) {
+		return (e: React.DragEvent<HTMLElement>) => {
+			if (!isProblemDrag(e) || !onMoveProblem) return;
+			e.preventDefault();
+			e.stopPropagation();
+			try {
+				const { problemId, categoryId } = JSON.parse(e.dataTransfer.getData(PROBLEM_DRAG_TYPE));
+				if (problemId !== beforeProblemId) onMoveProblem(problemId, categoryId, beforeProblemId);
+			} catch {}
+		};
+	}
 
-	// Sort problems by difficulty: Easy → Medium → Hard
-	const sortedProblems = useMemo(() => {
-		const difficultyOrder = { Easy: 0, Medium: 1, Hard: 2 };
-		return [...category.problems].sort((a, b) => {
-			return difficultyOrder[a.difficulty] - difficultyOrder[b.difficulty];
-		});
-	}, [category.problems]);
+	function handleProblemDragEnd(e: React.DragEvent<HTMLTableRowElement>) {
+		e.stopPropagation();
+		e.currentTarget.style.opacity = '1';
+	}
 
 	function startEditing() {
 		setTitle(category.title);
@@ -55,17 +147,22 @@ export function CategoryCard({ category, onDeleteCategory, onUpdateCategory, onU
 
 	return (
 		<div 
-			className="bg-layer-02 rounded-xl border border-primary overflow-hidden shadow-layer-1 transition-all duration-200" 
-			draggable={draggable} 
-			onDragStart={onDragStart} 
-			onDragOver={onDragOver} 
-			onDrop={onDrop}
-			onDragEnd={onDragEnd}
+			className={`bg-layer-02 rounded-xl border border-primary overflow-hidden shadow-layer-1 transition-all duration-200 ${category.personal ? 'border-dashed' : ''}`}
+			draggable={categoryDraggable} 
+			onDragStart={categoryDraggable ? handleCategoryDragStart : undefined} 
+			onDragOver={categoryDraggable ? handleCategoryDragOver : undefined} 
+			onDrop={categoryDraggable ? handleCategoryDrop('before') : undefined}
+			onDragEnd={categoryDraggable ? handleCategoryDragEnd : undefined}
 			style={{
-				cursor: draggable ? 'grab' : 'default'
+				cursor: categoryDraggable ? 'grab' : 'default'
 			}}
 		>
-			<div className="w-full flex items-center justify-between px-6 py-4 hover:bg-layer-03 transition-colors">
+			<div
+				className="w-full flex items-center justify-between px-6 py-4 hover:bg-layer-03 transition-colors"
+				onDragOver={problemsDraggable || categoryDraggable ? handleHeaderDragOver : undefined}
+				onDrop={problemsDraggable || categoryDraggable ? handleHeaderDrop : undefined}
+				title={categoryDraggable ? 'Drop a category here to nest it inside this one' : undefined}
+			>
 				<div className="flex items-center gap-3 flex-1 cursor-pointer" onClick={() => setOpen((v) => !v)}>
 					{open ? <ChevronDown size={18} className="text-tertiary" /> : <ChevronRight size={18} className="text-tertiary" />}
 					{editing ? (
@@ -83,6 +180,14 @@ export function CategoryCard({ category, onDeleteCategory, onUpdateCategory, onU
 					) : (
 						<span className="font-semibold text-primary text-lg">{category.title}</span>
 					)}
+					{category.personal && (
+						<span
+							className="inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs font-medium bg-layer-03 text-secondary"
+							title="Only you can see this category and its problems"
+						>
+							<Lock size={12} /> Personal
+						</span>
+					)}
 				</div>
 				<div className="flex items-center gap-4">
 					<div className="w-64 bg-layer-02 rounded-full h-3 overflow-hidden">
@@ -126,42 +231,54 @@ export function CategoryCard({ category, onDeleteCategory, onUpdateCategory, onU
 								<Edit2 size={16} />
 							</button>
 						)}
-						<button disabled={readOnly} onClick={(e) => { e.stopPropagation(); onDeleteCategory(); }} className="text-red-60 hover:text-red-80 transition-colors p-2 rounded-md hover:bg-red-10 disabled:opacity-50 disabled:cursor-not-allowed">
+						<button disabled={!canDeleteCategories} title={canDeleteCategories ? undefined : 'Only catalog owners can delete categories'} onClick={(e) => { e.stopPropagation(); onDeleteCategory(); }} className="text-red-60 hover:text-red-80 transition-colors p-2 rounded-md hover:bg-red-10 disabled:opacity-50 disabled:cursor-not-allowed">
 							<Trash2 size={16} />
 						</button>
 					</div>
 				</div>
 			</div>
 			{open && (
-				<div className="px-4 pb-6">
-					<div className="overflow-x-auto">
-						<table className="min-w-full text-sm">
-							<thead className="text-left text-secondary border-b border-primary">
-								<tr>
-									<th className="px-4 py-3 font-medium">Status</th>
-									<th className="px-4 py-3 font-medium">Problem</th>
-									<th className="px-4 py-3 font-medium">Platform</th>
-									<th className="px-4 py-3 font-medium">Practice</th>
-									<th className="px-4 py-3 font-medium">Difficulty</th>
-									<th className="px-4 py-3 font-medium">Note</th>
-									<th className="px-4 py-3 font-medium">Actions</th>
-								</tr>
-							</thead>
-							<tbody>
-								{sortedProblems.map((p) => (
-									<ProblemRow
-										key={p.id}
-										problem={p}
-										onToggleComplete={(c) => onUpdateProblem(p.id, (old) => ({ ...old, completed: c }))}
-										onDelete={() => onDeleteProblem(p.id)}
-										onEdit={(updates) => onUpdateProblem(p.id, (old) => ({ ...old, ...updates }))}
-										readOnly={readOnly}
-										progressReadOnly={progressReadOnly}
-									/>
-								))}
-							</tbody>
-						</table>
-					</div>
+				<div
+					className="px-4 pb-6"
+					onDragOver={problemsDraggable ? handleProblemDragOver : undefined}
+					onDrop={problemsDraggable ? handleProblemDrop(null) : undefined}
+				>
+					{(category.problems.length > 0 || !children) && (
+						<div className="overflow-x-auto">
+							<table className="min-w-full text-sm">
+								<thead className="text-left text-secondary border-b border-primary">
+									<tr>
+										<th className="px-4 py-3 font-medium">Status</th>
+										<th className="px-4 py-3 font-medium">Problem</th>
+										<th className="px-4 py-3 font-medium">Platform</th>
+										<th className="px-4 py-3 font-medium">Practice</th>
+										<th className="px-4 py-3 font-medium">Difficulty</th>
+										<th className="px-4 py-3 font-medium">Note</th>
+										<th className="px-4 py-3 font-medium">Actions</th>
+									</tr>
+								</thead>
+								<tbody>
+									{category.problems.map((p) => (
+										<ProblemRow
+											key={p.id}
+											problem={p}
+											personal={category.personal}
+											onChangeStatus={(status) => onChangeStatus(p.id, status)}
+											onDelete={() => onDeleteProblem(p.id)}
+											onEdit={(updates) => onUpdateProblem(p.id, (old) => ({ ...old, ...updates }))}
+											findDuplicates={(url) => findDuplicates(url, p.id)}
+											draggable={problemsDraggable}
+											onDragStart={problemsDraggable ? handleProblemDragStart(p.id) : undefined}
+											onDragOver={problemsDraggable ? handleProblemDragOver : undefined}
+											onDrop={problemsDraggable ? handleProblemDrop(p.id) : undefined}
+											onDragEnd={problemsDraggable ? handleProblemDragEnd : undefined}
+										/>
+									))}
+								</tbody>
+							</table>
+						</div>
+					)}
+					{children && <div className="mt-4 pl-4 flex flex-col gap-4 border-l border-primary">{children}</div>}
 				</div>
 			)}
 		</div>
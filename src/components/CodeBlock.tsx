@@ -0,0 +1,26 @@
+import { useMemo } from 'react';
+import { SolutionLanguage, TOKEN_COLORS, tokenize } from '../highlight';
+
+export const MONOSPACE = 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace';
+
+export interface CodeBlockProps {
+	code: string;
+	language: SolutionLanguage;
+}
+
+export function CodeBlock({ code, language }: CodeBlockProps) {
+	const tokens = useMemo(() => tokenize(code, language), [code, language]);
+	return (
+		<pre className="p-3 overflow-auto text-xs leading-relaxed text-primary" style={{ fontFamily: MONOSPACE }}>
+			<code>
+				{tokens.map((token, i) =>
+					token.kind === 'plain' ? token.text : (
+						<span key={i} style={{ color: TOKEN_COLORS[token.kind] }}>
+							{token.text}
+						</span>
+					)
+				)}
+			</code>
+		</pre>
+	);
+}
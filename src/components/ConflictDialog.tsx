@@ -0,0 +1,80 @@
+import { SyncConflict } from '../types';
+import { ConflictChoice } from '../conflicts';
+
+export interface ConflictDialogProps {
+	conflict: SyncConflict;
+	recordTitle?: string;
+	onResolve: (choice: ConflictChoice) => void;
+}
+
+function formatValue(value: unknown): string {
+	if (value === undefined || value === null || value === '') return '—';
+	if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+	if (Array.isArray(value)) {
+		if (value.length === 0) return '—';
+		return value.every((item) => typeof item === 'string') ? value.join(', ') : `${value.length} item${value.length === 1 ? '' : 's'}`;
+	}
+	return String(value);
+}
+
+export function ConflictDialog({ conflict, recordTitle, onResolve }: ConflictDialogProps) {
+	const fields = Object.keys(conflict.local);
+	// Notes and solutions can be combined instead of picking one side
+	const canMerge = fields.includes('note') || fields.includes('solutions');
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center" style={{ backgroundColor: '#00000080' }}>
+			<div className="bg-layer-02 rounded-lg border border-primary shadow-layer-2 w-[min(90vw,700px)] max-h-[85vh] flex flex-col">
+				<div className="px-4 py-3 border-b border-primary">
+					<div className="text-primary font-semibold">Conflicting edit</div>
+					<div className="text-sm text-secondary mt-1">
+						{recordTitle ? `"${recordTitle}"` : 'This item'} was changed on another device since you loaded it.
+					</div>
+				</div>
+				<div className="p-4 overflow-auto">
+					<table className="min-w-full text-sm">
+						<thead className="text-left text-secondary border-b border-primary">
+							<tr>
+								<th className="px-3 py-2 font-medium">Field</th>
+								<th className="px-3 py-2 font-medium">Your change</th>
+								<th className="px-3 py-2 font-medium">On the server</th>
+							</tr>
+						</thead>
+						<tbody>
+							{fields.map((field) => (
+								<tr key={field} className="border-b border-primary/20 align-top">
+									<td className="px-3 py-2 text-secondary capitalize">{field}</td>
+									<td className="px-3 py-2 text-primary whitespace-pre-wrap">{formatValue(conflict.local[field])}</td>
+									<td className="px-3 py-2 text-primary whitespace-pre-wrap">{formatValue(conflict.server[field])}</td>
+								</tr>
+							))}
+						</tbody>
+					</table>
+				</div>
+				<div className="px-4 py-3 border-t border-primary flex justify-end gap-3">
+					<button
+						className="px-3 py-1.5 rounded-md bg-layer-03 text-secondary hover:text-primary hover:bg-layer-02 border border-tertiary transition-colors"
+						onClick={() => onResolve('theirs')}
+					>
+						Keep server version
+					</button>
+					{canMerge && (
+						<button
+							className="px-3 py-1.5 rounded-md bg-layer-03 text-secondary hover:text-primary hover:bg-layer-02 border border-tertiary transition-colors"
+							onClick={() => onResolve('merge')}
+						>
+							Merge both
+						</button>
+					)}
+					<button
+						className="px-3 py-1.5 rounded-md text-xs font-medium"
+						style={{ backgroundColor: 'var(--green-60)', color: 'var(--text-reverse)' }}
+						onClick={() => onResolve('mine')}
+					>
+						Keep my change
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+}
@@ -1,66 +1,128 @@
 import { useMemo, useState } from 'react';
 import { Category, Difficulty, Platform, Problem } from '../types';
-import { generateId } from '../utils';
-import { Plus, Dice5, X } from 'lucide-react';
+import { categoryPath, collectTags, generateId, parseTags } from '../utils';
+import { Plus, Dice5, X, CalendarClock, Copy, ArrowDownUp } from 'lucide-react';
+import { usePermissions } from '../session';
+import { PLATFORMS, PLATFORM_REGISTRY, ProblemSuggestion, detectPlatform, suggestFromUrl } from '../platforms';
+import { describeDuplicates, findDuplicates } from '../duplicates';
 
 export interface ControlsProps {
 	categories: Category[];
-	onCreateCategory: (title: string) => void;
+	onCreateCategory: (title: string, parentId: string | null, personal: boolean) => void;
 	onAddProblem: (categoryId: string, problem: Problem) => void;
 	onSearch: (text: string) => void;
 	onFilterDifficulty: (d?: Difficulty) => void;
+	onFilterTag: (tag?: string) => void;
 	randomPick: () => void;
-	canEdit?: boolean;
+	// Problems due for revision today, and whether that list is showing
+	dueCount: number;
+	showingRevision: boolean;
+	onToggleRevision: () => void;
+	// Sets of catalog problems added more than once, and whether that report is showing
+	duplicateCount: number;
+	showingDuplicates: boolean;
+	onToggleDuplicates: () => void;
+	// Whether the export and import panel is showing
+	showingTransfer: boolean;
+	onToggleTransfer: () => void;
 }
 
 export function Controls(props: ControlsProps) {
+	const { canEditCatalog, canAddPersonal } = usePermissions();
 	const [showCategoryModal, setShowCategoryModal] = useState(false);
 	const [showProblemModal, setShowProblemModal] = useState(false);
 	const [categoryTitle, setCategoryTitle] = useState('');
+	const [categoryParentId, setCategoryParentId] = useState('');
+	// Users who cannot edit the catalog can still make personal categories
+	const [categoryPersonal, setCategoryPersonal] = useState(false);
+	const personalCategory = categoryPersonal || !canEditCatalog;
 	const [newProblem, setNewProblem] = useState({
 		title: '',
 		url: '',
 		platform: 'GFG' as Platform,
 		difficulty: 'Easy' as Difficulty,
 		categoryId: '',
+		tags: '',
+		externalId: '',
 	});
 
+	// Whether the platform shown was read from the link rather than picked
+	const [platformDetected, setPlatformDetected] = useState(false);
+	// The title and external id read from the link, replaced as the link changes
+	const [suggestion, setSuggestion] = useState<ProblemSuggestion | null>(null);
+
+	// Categories this user may add to: their personal ones, and the catalog's for editors
 	const categoryOptions = useMemo(
-		() => props.categories.map((c) => ({ value: c.id, label: c.title })),
-		[props.categories]
+		() =>
+			props.categories
+				.filter((c) => c.personal || canEditCatalog)
+				.map((c) => ({
+					value: c.id,
+					label: `${categoryPath(props.categories, c.id)}${c.personal ? ' (personal)' : ''}`,
+					personal: !!c.personal,
+				})),
+		[props.categories, canEditCatalog]
 	);
+	const parentOptions = categoryOptions.filter((opt) => opt.personal === personalCategory);
+
+	const tagOptions = useMemo(() => collectTags(props.categories), [props.categories]);
+	const duplicates = useMemo(() => findDuplicates(props.categories, newProblem.url), [props.categories, newProblem.url]);
 
 	const handleCreateCategory = () => {
 		if (!categoryTitle.trim()) return;
-		props.onCreateCategory(categoryTitle.trim());
+		props.onCreateCategory(categoryTitle.trim(), categoryParentId || null, personalCategory);
 		setCategoryTitle('');
+		setCategoryParentId('');
+		setCategoryPersonal(false);
 		setShowCategoryModal(false);
 	};
 
+	// Pasting a link fills in its platform, and a title and external id read from it. An
+	// unknown link leaves the platform as it was; a title or id typed over is kept.
+	const handleUrlChange = (url: string) => {
+		const detected = detectPlatform(url);
+		const next = suggestFromUrl(url);
+		setNewProblem((s) => ({
+			...s,
+			url,
+			platform: detected ?? s.platform,
+			title: !s.title.trim() || s.title === suggestion?.title ? (next?.title ?? '') : s.title,
+			externalId: !s.externalId.trim() || s.externalId === suggestion?.externalId ? (next?.externalId ?? '') : s.externalId,
+		}));
+		setPlatformDetected(detected !== null);
+		setSuggestion(next);
+	};
+
 	const handleAddProblem = async () => {
 		if (!newProblem.title.trim() || !newProblem.url.trim() || !newProblem.categoryId) return;
 		
 		// Create the problem object
-		const problem = {
+		const problem: Problem = {
 			id: generateId('p'),
 			title: newProblem.title.trim(),
 			url: newProblem.url.trim(),
 			platform: newProblem.platform,
 			difficulty: newProblem.difficulty,
-			completed: false,
+			status: 'todo',
 			note: '', // Add the missing note field
+			tags: parseTags(newProblem.tags),
+			...(newProblem.externalId.trim() ? { externalId: newProblem.externalId.trim() } : {}),
 		};
 		
 		// Add the problem
 		props.onAddProblem(newProblem.categoryId, problem);
 		
 		// Reset form and close modal
-		setNewProblem({ title: '', url: '', platform: 'GFG', difficulty: 'Easy', categoryId: '' });
+		setNewProblem({ title: '', url: '', platform: 'GFG', difficulty: 'Easy', categoryId: '', tags: '', externalId: '' });
+		setPlatformDetected(false);
+		setSuggestion(null);
 		setShowProblemModal(false);
 	};
 
 	const resetProblemForm = () => {
-		setNewProblem({ title: '', url: '', platform: 'GFG', difficulty: 'Easy', categoryId: '' });
+		setNewProblem({ title: '', url: '', platform: 'GFG', difficulty: 'Easy', categoryId: '', tags: '', externalId: '' });
+		setPlatformDetected(false);
+		setSuggestion(null);
 		setShowProblemModal(false);
 	};
 
@@ -72,8 +134,8 @@ export function Controls(props: ControlsProps) {
 					<button
 						className="inline-flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium hover:opacity-80 transition-opacity"
 						style={{ backgroundColor: 'var(--blue-60)', color: 'var(--text-reverse)' }}
-						onClick={() => props.canEdit && setShowCategoryModal(true)}
-						disabled={!props.canEdit}
+						onClick={() => (canEditCatalog || canAddPersonal) && setShowCategoryModal(true)}
+						disabled={!canEditCatalog && !canAddPersonal}
 					>
 						<Plus size={16} /> Create Category
 					</button>
@@ -81,8 +143,8 @@ export function Controls(props: ControlsProps) {
 					<button
 						className="inline-flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium hover:opacity-80 transition-opacity"
 						style={{ backgroundColor: 'var(--teal-60)', color: 'var(--text-reverse)' }}
-						onClick={() => props.canEdit && setShowProblemModal(true)}
-						disabled={!props.canEdit}
+						onClick={() => (canEditCatalog || canAddPersonal) && setShowProblemModal(true)}
+						disabled={!canEditCatalog && !canAddPersonal}
 					>
 						<Plus size={16} /> Add Problem
 					</button>
@@ -116,6 +178,24 @@ export function Controls(props: ControlsProps) {
 						<option>Hard</option>
 					</select>
 
+					<select
+						defaultValue=""
+						onChange={(e) => props.onFilterTag(e.target.value || undefined)}
+						className="rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-60"
+						style={{ 
+							backgroundColor: 'var(--layer-02)', 
+							border: '1px solid var(--border-secondary)',
+							color: 'var(--text-primary)'
+						}}
+					>
+						<option value="">Tag</option>
+						{tagOptions.map((tag) => (
+							<option key={tag} value={tag}>
+								{tag}
+							</option>
+						))}
+					</select>
+
 					<button
 						className="inline-flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium hover:opacity-80 transition-opacity"
 						style={{ backgroundColor: 'var(--purple-60)', color: 'var(--text-reverse)' }}
@@ -123,6 +203,44 @@ export function Controls(props: ControlsProps) {
 					>
 						<Dice5 size={16} /> Pick Random
 					</button>
+
+					<button
+						className="inline-flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium hover:opacity-80 transition-opacity"
+						style={{
+							backgroundColor: props.showingRevision ? 'var(--layer-03)' : 'var(--layer-02)',
+							border: '1px solid var(--border-secondary)',
+							color: 'var(--text-primary)'
+						}}
+						onClick={props.onToggleRevision}
+					>
+						<CalendarClock size={16} /> Due for revision ({props.dueCount})
+					</button>
+
+					{canEditCatalog && (
+						<button
+							className="inline-flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium hover:opacity-80 transition-opacity"
+							style={{
+								backgroundColor: props.showingDuplicates ? 'var(--layer-03)' : 'var(--layer-02)',
+								border: '1px solid var(--border-secondary)',
+								color: 'var(--text-primary)'
+							}}
+							onClick={props.onToggleDuplicates}
+						>
+							<Copy size={16} /> Duplicates ({props.duplicateCount})
+						</button>
+					)}
+
+					<button
+						className="inline-flex items-center gap-2 rounded-md px-3 py-2 text-sm font-medium hover:opacity-80 transition-opacity"
+						style={{
+							backgroundColor: props.showingTransfer ? 'var(--layer-03)' : 'var(--layer-02)',
+							border: '1px solid var(--border-secondary)',
+							color: 'var(--text-primary)'
+						}}
+						onClick={props.onToggleTransfer}
+					>
+						<ArrowDownUp size={16} /> Export / Import
+					</button>
 				</div>
 			</div>
 
@@ -165,6 +283,42 @@ export function Controls(props: ControlsProps) {
 									autoFocus
 								/>
 							</div>
+							<div>
+								<label className="block text-sm font-medium text-secondary mb-2">
+									Inside
+								</label>
+								<select
+									value={categoryParentId}
+									onChange={(e) => setCategoryParentId(e.target.value)}
+									className="w-full rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-60"
+									style={{ 
+										backgroundColor: 'var(--layer-03)', 
+										border: '1px solid var(--border-tertiary)',
+										color: 'var(--text-primary)'
+									}}
+								>
+									<option value="">Top level</option>
+									{parentOptions.map((opt) => (
+										<option key={opt.value} value={opt.value}>
+											{opt.label}
+										</option>
+									))}
+								</select>
+							</div>
+							{canAddPersonal && (
+								<label className="flex items-center gap-2 text-sm text-secondary">
+									<input
+										type="checkbox"
+										checked={personalCategory}
+										disabled={!canEditCatalog}
+										onChange={(e) => {
+											setCategoryPersonal(e.target.checked);
+											setCategoryParentId('');
+										}}
+									/>
+									Personal: only you can see it and the problems you add to it
+								</label>
+							)}
 							<div className="flex gap-2 justify-end">
 								<button
 									onClick={() => setShowCategoryModal(false)}
@@ -227,6 +381,9 @@ export function Controls(props: ControlsProps) {
 									}}
 									autoFocus
 								/>
+								{suggestion && newProblem.title === suggestion.title && (
+									<div className="mt-1 text-xs text-tertiary">Suggested from the link</div>
+								)}
 							</div>
 							<div>
 								<label className="block text-sm font-medium text-secondary mb-2">
@@ -234,7 +391,7 @@ export function Controls(props: ControlsProps) {
 								</label>
 								<input
 									value={newProblem.url}
-									onChange={(e) => setNewProblem((s) => ({ ...s, url: e.target.value }))}
+									onChange={(e) => handleUrlChange(e.target.value)}
 									placeholder="https://leetcode.com/problems/..."
 									className="w-full rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-60"
 									style={{ 
@@ -243,6 +400,31 @@ export function Controls(props: ControlsProps) {
 										color: 'var(--text-primary)'
 									}}
 								/>
+								{duplicates.length > 0 && (
+									<div className="mt-1 text-xs" style={{ color: 'var(--yellow-60)' }}>
+										Already added:{' '}
+										{describeDuplicates(duplicates)}
+									</div>
+								)}
+							</div>
+							<div>
+								<label className="block text-sm font-medium text-secondary mb-2">
+									External ID
+								</label>
+								<input
+									value={newProblem.externalId}
+									onChange={(e) => setNewProblem((s) => ({ ...s, externalId: e.target.value }))}
+									placeholder="leetcode:two-sum"
+									className="w-full rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-60"
+									style={{ 
+										backgroundColor: 'var(--layer-03)', 
+										border: '1px solid var(--border-tertiary)',
+										color: 'var(--text-primary)'
+									}}
+								/>
+								{suggestion && newProblem.externalId === suggestion.externalId && (
+									<div className="mt-1 text-xs text-tertiary">Suggested from the link</div>
+								)}
 							</div>
 							<div className="grid grid-cols-2 gap-4">
 								<div>
@@ -251,7 +433,10 @@ export function Controls(props: ControlsProps) {
 									</label>
 									<select
 										value={newProblem.platform}
-										onChange={(e) => setNewProblem((s) => ({ ...s, platform: e.target.value as Platform }))}
+										onChange={(e) => {
+											setNewProblem((s) => ({ ...s, platform: e.target.value as Platform }));
+											setPlatformDetected(false);
+										}}
 										className="w-full rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-60"
 										style={{ 
 											backgroundColor: 'var(--layer-03)', 
@@ -259,11 +444,13 @@ export function Controls(props: ControlsProps) {
 											color: 'var(--text-primary)'
 										}}
 									>
-										<option value="GFG">GeeksforGeeks (GFG)</option>
-										<option value="LeetCode">LeetCode</option>
-										<option value="HackerRank">HackerRank</option>
-										<option value="Codeforces">Codeforces</option>
+										{PLATFORMS.map((p) => (
+											<option key={p} value={p}>
+												{PLATFORM_REGISTRY[p].label}
+											</option>
+										))}
 									</select>
+									{platformDetected && <div className="mt-1 text-xs text-tertiary">Detected from the link</div>}
 								</div>
 								<div>
 									<label className="block text-sm font-medium text-secondary mb-2">
@@ -306,6 +493,25 @@ export function Controls(props: ControlsProps) {
 										</option>
 									))}
 								</select>
+								{categoryOptions.length === 0 && (
+									<p className="mt-2 text-xs text-tertiary">Create a personal category first to keep your own problems.</p>
+								)}
+							</div>
+							<div>
+								<label className="block text-sm font-medium text-secondary mb-2">
+									Tags
+								</label>
+								<input
+									value={newProblem.tags}
+									onChange={(e) => setNewProblem((s) => ({ ...s, tags: e.target.value }))}
+									placeholder="two pointers, sliding window"
+									className="w-full rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-60"
+									style={{ 
+										backgroundColor: 'var(--layer-03)', 
+										border: '1px solid var(--border-tertiary)',
+										color: 'var(--text-primary)'
+									}}
+								/>
 							</div>
 							<div className="flex gap-2 justify-end pt-2">
 								<button
@@ -0,0 +1,93 @@
+import { useState } from 'react';
+import { ExternalLink, X } from 'lucide-react';
+import { DuplicateMatch } from '../duplicates';
+import { STATUS_LABELS } from '../status';
+import { DifficultyBadge, PlatformBadge } from './Badge';
+
+export interface DuplicatesReportProps {
+	groups: DuplicateMatch[][];
+	onMerge: (group: DuplicateMatch[], keepId: string) => void;
+	onClose: () => void;
+}
+
+function DuplicateGroup({ group, onMerge }: { group: DuplicateMatch[]; onMerge: (keepId: string) => void }) {
+	const [keepId, setKeepId] = useState(group[0].problem.id);
+
+	return (
+		<div className="rounded-md border border-primary overflow-hidden">
+			<table className="min-w-full text-sm">
+				<thead className="text-left text-secondary border-b border-primary">
+					<tr>
+						<th className="px-4 py-2 font-medium">Keep</th>
+						<th className="px-4 py-2 font-medium">Problem</th>
+						<th className="px-4 py-2 font-medium">Category</th>
+						<th className="px-4 py-2 font-medium">Platform</th>
+						<th className="px-4 py-2 font-medium">Difficulty</th>
+						<th className="px-4 py-2 font-medium">Your status</th>
+					</tr>
+				</thead>
+				<tbody>
+					{group.map(({ path, problem }) => (
+						<tr key={problem.id} className="border-b border-primary/20">
+							<td className="px-4 py-2">
+								<input type="radio" checked={keepId === problem.id} onChange={() => setKeepId(problem.id)} />
+							</td>
+							<td className="px-4 py-2 w-full">
+								<a href={problem.url} target="_blank" className="inline-flex items-center gap-2 text-primary hover:text-blue-60 transition-colors font-medium">
+									{problem.title} <ExternalLink size={14} />
+								</a>
+								<div className="text-xs text-tertiary">{problem.url}</div>
+							</td>
+							<td className="px-4 py-2 whitespace-nowrap text-secondary">{path}</td>
+							<td className="px-4 py-2">
+								<PlatformBadge platform={problem.platform} />
+							</td>
+							<td className="px-4 py-2">
+								<DifficultyBadge difficulty={problem.difficulty} />
+							</td>
+							<td className="px-4 py-2 whitespace-nowrap text-secondary">{STATUS_LABELS[problem.status]}</td>
+						</tr>
+					))}
+				</tbody>
+			</table>
+			<div className="px-4 py-2 flex justify-end">
+				<button
+					className="px-3 py-1.5 rounded-md text-xs font-medium hover:opacity-80 transition-opacity"
+					style={{ backgroundColor: 'var(--teal-60)', color: 'var(--text-reverse)' }}
+					onClick={() => onMerge(keepId)}
+				>
+					Merge into the kept problem
+				</button>
+			</div>
+		</div>
+	);
+}
+
+// Catalog problems added more than once, for owners and editors to fold together
+export function DuplicatesReport({ groups, onMerge, onClose }: DuplicatesReportProps) {
+	return (
+		<div className="bg-layer-02 rounded-xl border border-primary overflow-hidden shadow-layer-1">
+			<div className="flex items-center justify-between px-6 py-4">
+				<span className="font-semibold text-primary text-lg">Duplicate problems</span>
+				<button className="text-tertiary hover:text-primary p-1.5 rounded-md hover:bg-layer-03" onClick={onClose} title="Close">
+					<X size={16} />
+				</button>
+			</div>
+			<div className="px-6 pb-6 space-y-4">
+				{groups.length === 0 ? (
+					<div className="text-sm text-secondary">No problem appears twice.</div>
+				) : (
+					<>
+						<div className="text-sm text-secondary">
+							Merging deletes the other copies. Everyone's progress on them joins their progress on the kept one: the furthest status, both
+							notes and every solution, attempts and note history.
+						</div>
+						{groups.map((group) => (
+							<DuplicateGroup key={group.map((m) => m.problem.id).join()} group={group} onMerge={(keepId) => onMerge(group, keepId)} />
+						))}
+					</>
+				)}
+			</div>
+		</div>
+	);
+}
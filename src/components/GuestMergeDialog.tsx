@@ -0,0 +1,57 @@
+import { GuestMergeItem } from '../guestProgress';
+import { STATUS_LABELS } from '../status';
+
+export interface GuestMergeDialogProps {
+	items: GuestMergeItem[];
+	onMerge: () => void;
+	onDiscard: () => void;
+}
+
+function describe(item: GuestMergeItem): string {
+	const parts: string[] = [];
+	if (item.changes.status) parts.push(`mark as ${STATUS_LABELS[item.changes.status].toLowerCase()}`);
+	if (item.changes.note !== undefined) parts.push('add note');
+	if (item.changes.review) parts.push('keep revision schedule');
+	if (item.changes.solutions) parts.push('add solutions');
+	return parts.join(', ');
+}
+
+export function GuestMergeDialog({ items, onMerge, onDiscard }: GuestMergeDialogProps) {
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center" style={{ backgroundColor: '#00000080' }}>
+			<div className="bg-layer-02 rounded-lg border border-primary shadow-layer-2 w-[min(90vw,600px)] max-h-[85vh] flex flex-col">
+				<div className="px-4 py-3 border-b border-primary">
+					<div className="text-primary font-semibold">Keep progress from before you signed in?</div>
+					<div className="text-sm text-secondary mt-1">
+						{items.length} problem{items.length === 1 ? '' : 's'} in this browser have progress that is not in your account yet.
+					</div>
+				</div>
+				<div className="p-4 overflow-auto">
+					<ul className="space-y-2 text-sm">
+						{items.map((item) => (
+							<li key={item.problemId} className="flex items-center justify-between gap-4">
+								<span className="text-primary font-medium">{item.title}</span>
+								<span className="text-tertiary">{describe(item)}</span>
+							</li>
+						))}
+					</ul>
+				</div>
+				<div className="px-4 py-3 border-t border-primary flex justify-end gap-3">
+					<button
+						className="px-3 py-1.5 rounded-md bg-layer-03 text-secondary hover:text-primary hover:bg-layer-02 border border-tertiary transition-colors"
+						onClick={onDiscard}
+					>
+						Discard
+					</button>
+					<button
+						className="px-3 py-1.5 rounded-md text-xs font-medium"
+						style={{ backgroundColor: 'var(--green-60)', color: 'var(--text-reverse)' }}
+						onClick={onMerge}
+					>
+						Merge into my account
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+}
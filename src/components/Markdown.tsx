@@ -0,0 +1,390 @@
+import { ReactNode } from 'react';
+import { SolutionLanguage, isSolutionLanguage } from '../highlight';
+import { CodeBlock, MONOSPACE } from './CodeBlock';
+
+// Markdown for problem notes: headings, paragraphs, lists, quotes, fenced code (highlighted
+// when the language is one we know), bold, italics, links and LaTeX-style math between
+// $...$ or $$...$$. Everything is built as React elements rather than HTML, so nothing
+// written in a note can inject markup.
+
+export interface MarkdownProps {
+	source: string;
+}
+
+// ```c++ and friends, as people tend to write them
+const FENCE_ALIASES: Record<string, SolutionLanguage> = {
+	'c++': 'cpp',
+	cc: 'cpp',
+	py: 'python',
+	js: 'javascript',
+	ts: 'typescript',
+	golang: 'go',
+	rs: 'rust',
+	kt: 'kotlin',
+	cs: 'csharp',
+	'c#': 'csharp',
+};
+
+function fenceLanguage(info: string): SolutionLanguage {
+	const name = info.trim().split(/\s+/)[0].toLowerCase();
+	const language = FENCE_ALIASES[name] ?? name;
+	return isSolutionLanguage(language) ? language : 'text';
+}
+
+// --- Math. A small subset of TeX: symbols, sub- and superscripts, \frac, \sqrt and \text,
+// which covers complexities and recurrences without shipping a typesetting engine.
+
+const TEX_SYMBOLS: Record<string, string> = {
+	alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', theta: 'θ', lambda: 'λ', mu: 'μ', pi: 'π', sigma: 'σ', phi: 'φ', omega: 'ω',
+	Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Sigma: 'Σ', Phi: 'Φ', Omega: 'Ω',
+	le: '≤', leq: '≤', ge: '≥', geq: '≥', ne: '≠', neq: '≠', approx: '≈', equiv: '≡', sim: '∼',
+	times: '×', cdot: '·', div: '÷', pm: '±', oplus: '⊕',
+	infty: '∞', sum: '∑', prod: '∏', int: '∫', partial: '∂',
+	in: '∈', notin: '∉', subset: '⊂', subseteq: '⊆', cup: '∪', cap: '∩', emptyset: '∅', setminus: '∖',
+	forall: '∀', exists: '∃', neg: '¬', land: '∧', lor: '∨',
+	to: '→', rightarrow: '→', leftarrow: '←', Rightarrow: '⇒', implies: '⇒', iff: '⇔', mapsto: '↦',
+	lfloor: '⌊', rfloor: '⌋', lceil: '⌈', rceil: '⌉', langle: '⟨', rangle: '⟩',
+	ldots: '…', cdots: '⋯', dots: '…', mid: '∣', '|': '‖',
+	',': ' ', ';': ' ', ':': ' ', ' ': ' ', '!': '', quad: ' ', qquad: '  ', '\\': ' ',
+	'{': '{', '}': '}', '%': '%', '$': '$', '#': '#', '&': '&', _: '_',
+};
+
+// Set upright, as names rather than products of variables
+const TEX_FUNCTIONS = new Set(['log', 'ln', 'lg', 'exp', 'min', 'max', 'gcd', 'lcm', 'lim', 'mod', 'bmod', 'sin', 'cos', 'tan', 'det', 'deg']);
+
+// Relations and binary operators get a little room on either side
+const TEX_OPERATORS = new Set(['=', '<', '>', '+', '−', '×', '·', '÷', '±', '⊕', '≤', '≥', '≠', '≈', '≡', '∼', '∈', '∉', '⊂', '⊆', '∪', '∩', '∧', '∨', '→', '←', '⇒', '⇔', '↦', '∖']);
+
+const MATH_FONT = '"Cambria Math", "STIX Two Math", "Latin Modern Math", "Times New Roman", serif';
+
+function renderTex(source: string): ReactNode[] {
+	let pos = 0;
+	let key = 0;
+
+	function symbol(text: string): ReactNode {
+		return TEX_OPERATORS.has(text) ? <span key={key++} className="px-0.5">{text}</span> : text;
+	}
+
+	// A braced group, or else the single item at the cursor
+	function argument(): ReactNode[] {
+		while (source[pos] === ' ') pos++;
+		if (source[pos] === '{') {
+			pos++;
+			return sequence(true);
+		}
+		return atom();
+	}
+
+	// The literal text of a braced group, for \text{...}
+	function rawArgument(): string {
+		while (source[pos] === ' ') pos++;
+		if (source[pos] !== '{') return source[pos++] ?? '';
+		const end = source.indexOf('}', pos);
+		const text = source.slice(pos + 1, end < 0 ? source.length : end);
+		pos = end < 0 ? source.length : end + 1;
+		return text;
+	}
+
+	function sequence(inGroup: boolean): ReactNode[] {
+		const nodes: ReactNode[] = [];
+		while (pos < source.length) {
+			const ch = source[pos];
+			if (ch === '}') {
+				pos++;
+				if (inGroup) break;
+				continue;
+			}
+			if (ch === '^' || ch === '_') {
+				pos++;
+				const Tag = ch === '^' ? 'sup' : 'sub';
+				nodes.push(<Tag key={key++}>{argument()}</Tag>);
+				continue;
+			}
+			nodes.push(...atom());
+		}
+		return nodes;
+	}
+
+	function atom(): ReactNode[] {
+		const ch = source[pos];
+		if (ch === undefined) return [];
+		if (ch === '\\') return command();
+		pos++;
+		if (ch === '{') return sequence(true);
+		// Spacing comes from the operators, as in TeX
+		if (/\s/.test(ch)) return [];
+		if (/[A-Za-z]/.test(ch)) return [<i key={key++}>{ch}</i>];
+		return [symbol(ch === '-' ? '−' : ch)];
+	}
+
+	function command(): ReactNode[] {
+		pos++;
+		const letters = /^[A-Za-z]+/.exec(source.slice(pos));
+		const name = letters ? letters[0] : (source[pos] ?? '');
+		pos += name.length;
+		switch (name) {
+			case 'frac':
+			case 'dfrac':
+			case 'tfrac': {
+				const numerator = argument();
+				const denominator = argument();
+				return [
+					<span key={key++} className="inline-flex flex-col items-center align-middle mx-0.5 text-[0.85em] leading-tight">
+						<span className="px-0.5">{numerator}</span>
+						<span className="px-0.5 w-full text-center border-t border-current">{denominator}</span>
+					</span>,
+				];
+			}
+			case 'sqrt':
+				return [
+					<span key={key++} className="whitespace-nowrap">
+						√<span className="border-t border-current">{argument()}</span>
+					</span>,
+				];
+			case 'text':
+			case 'textrm':
+			case 'mathrm':
+			case 'operatorname':
+				return [<span key={key++}>{rawArgument()}</span>];
+			case 'mathbf':
+			case 'textbf':
+				return [<b key={key++}>{argument()}</b>];
+			// Sizing hints; the delimiters that follow are drawn as they are
+			case 'left':
+			case 'right':
+			case 'big':
+			case 'Big':
+			case 'displaystyle':
+				return [];
+		}
+		if (TEX_FUNCTIONS.has(name)) return [<span key={key++} className="mx-0.5">{name}</span>];
+		if (Object.prototype.hasOwnProperty.call(TEX_SYMBOLS, name)) return [symbol(TEX_SYMBOLS[name])];
+		return [`\\${name}`];
+	}
+
+	return sequence(false);
+}
+
+function TexMath({ source }: { source: string }) {
+	return (
+		<span className="whitespace-nowrap" style={{ fontFamily: MATH_FONT }}>
+			{renderTex(source)}
+		</span>
+	);
+}
+
+// --- Inline formatting
+
+const INLINE_PATTERN =
+	/`(?<code>[^`\n]+)`|\$(?<math>[^$\s](?:[^$\n]*[^$\s])?)\$|\*\*(?<strong>.+?)\*\*|__(?<strongAlt>.+?)__|\*(?<em>[^*\s](?:[^*\n]*[^*\s])?)\*|\b_(?<emAlt>[^_\s](?:[^_\n]*[^_\s])?)_\b|\[(?<label>[^\]\n]+)\]\((?<href>[^)\s]+)\)|\\(?<escaped>[\\`*_{}[\]()#+\-.!$])/g;
+
+// Only links that leave the app; javascript: and friends are shown as plain text
+function safeHref(href: string): string | null {
+	return /^(https?:|mailto:)/i.test(href) ? href : null;
+}
+
+function renderInline(text: string): ReactNode[] {
+	const nodes: ReactNode[] = [];
+	let last = 0;
+	for (const match of text.matchAll(INLINE_PATTERN)) {
+		const index = match.index ?? 0;
+		if (index > last) nodes.push(text.slice(last, index));
+		const groups = match.groups ?? {};
+		const key = nodes.length;
+		const strong = groups.strong ?? groups.strongAlt;
+		const em = groups.em ?? groups.emAlt;
+		if (groups.code !== undefined) {
+			nodes.push(
+				<code key={key} className="px-1 rounded bg-layer-03 text-[0.9em]" style={{ fontFamily: MONOSPACE }}>
+					{groups.code}
+				</code>
+			);
+		} else if (groups.math !== undefined) {
+			nodes.push(<TexMath key={key} source={groups.math} />);
+		} else if (strong !== undefined) {
+			nodes.push(<strong key={key}>{renderInline(strong)}</strong>);
+		} else if (em !== undefined) {
+			nodes.push(<em key={key}>{renderInline(em)}</em>);
+		} else if (groups.label !== undefined) {
+			const href = safeHref(groups.href);
+			nodes.push(
+				href ? (
+					<a key={key} href={href} target="_blank" rel="noreferrer" className="text-blue-60 hover:underline">
+						{renderInline(groups.label)}
+					</a>
+				) : (
+					groups.label
+				)
+			);
+		} else {
+			nodes.push(groups.escaped);
+		}
+		last = index + match[0].length;
+	}
+	if (last < text.length) nodes.push(text.slice(last));
+	return nodes;
+}
+
+// --- Blocks
+
+const FENCE = /^\s*(```+|~~~+)(.*)$/;
+const HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/;
+const RULE = /^\s{0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^\s{0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+
+const HEADING_TAGS = ['h1', 'h2', 'h3', 'h4', 'h5', 'h6'] as const;
+const HEADING_CLASSES = ['text-xl font-semibold', 'text-lg font-semibold', 'text-base font-semibold', 'font-semibold', 'font-semibold', 'font-semibold'];
+
+function isBlank(line: string): boolean {
+	return line.trim() === '';
+}
+
+function indentOf(line: string): number {
+	return line.length - line.trimStart().length;
+}
+
+function startsBlock(line: string): boolean {
+	return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line) || LIST_ITEM.test(line) || line.trim().startsWith('$$');
+}
+
+function renderList(lines: string[], start: number, keyIndex: number): { node: ReactNode; next: number } {
+	const first = LIST_ITEM.exec(lines[start])!;
+	const baseIndent = first[1].length;
+	const ordered = /\d/.test(first[2]);
+	const items: string[][] = [];
+	let contentIndent = 0;
+	let i = start;
+
+	while (i < lines.length) {
+		const line = lines[i];
+		const item = LIST_ITEM.exec(line);
+		if (item && item[1].length === baseIndent && /\d/.test(item[2]) === ordered) {
+			items.push([item[3]]);
+			contentIndent = baseIndent + item[2].length + 1;
+			i++;
+		} else if (isBlank(line)) {
+			// A blank line only continues the list if more of it follows
+			const next = lines[i + 1];
+			const sibling = next !== undefined && LIST_ITEM.exec(next);
+			if (next === undefined || (indentOf(next) <= baseIndent && !(sibling && sibling[1].length === baseIndent))) break;
+			items[items.length - 1].push('');
+			i++;
+		} else if (indentOf(line) > baseIndent) {
+			items[items.length - 1].push(line.slice(Math.min(indentOf(line), contentIndent)));
+			i++;
+		} else if (!startsBlock(line) && !isBlank(lines[i - 1])) {
+			// A lazy continuation of the item's paragraph
+			items[items.length - 1].push(line.trim());
+			i++;
+		} else {
+			break;
+		}
+	}
+
+	const children = items.map((itemLines, index) => <li key={index}>{renderBlocks(itemLines)}</li>);
+	const node = ordered ? (
+		<ol key={keyIndex} start={parseInt(first[2], 10)} className="list-decimal pl-6 space-y-1">
+			{children}
+		</ol>
+	) : (
+		<ul key={keyIndex} className="list-disc pl-6 space-y-1">
+			{children}
+		</ul>
+	);
+	return { node, next: i };
+}
+
+function renderBlocks(lines: string[]): ReactNode[] {
+	const nodes: ReactNode[] = [];
+	let i = 0;
+
+	while (i < lines.length) {
+		const line = lines[i];
+		const key = nodes.length;
+
+		if (isBlank(line)) {
+			i++;
+			continue;
+		}
+
+		const fence = FENCE.exec(line);
+		if (fence) {
+			const body: string[] = [];
+			i++;
+			while (i < lines.length && !lines[i].trim().startsWith(fence[1])) body.push(lines[i++]);
+			i++;
+			nodes.push(
+				<div key={key} className="rounded-md border border-primary bg-layer-01 overflow-hidden">
+					<CodeBlock code={body.join('\n')} language={fenceLanguage(fence[2])} />
+				</div>
+			);
+			continue;
+		}
+
+		if (line.trim().startsWith('$$')) {
+			const opening = line.trim().slice(2);
+			const body: string[] = [];
+			i++;
+			if (opening.endsWith('$$')) {
+				body.push(opening.slice(0, -2));
+			} else {
+				body.push(opening);
+				while (i < lines.length && !lines[i].trim().endsWith('$$')) body.push(lines[i++]);
+				if (i < lines.length) body.push(lines[i++].trim().slice(0, -2));
+			}
+			nodes.push(
+				<div key={key} className="text-center overflow-x-auto py-1">
+					<TexMath source={body.join(' ')} />
+				</div>
+			);
+			continue;
+		}
+
+		const heading = HEADING.exec(line);
+		if (heading) {
+			const level = heading[1].length - 1;
+			const Tag = HEADING_TAGS[level];
+			nodes.push(
+				<Tag key={key} className={HEADING_CLASSES[level]}>
+					{renderInline(heading[2])}
+				</Tag>
+			);
+			i++;
+			continue;
+		}
+
+		if (RULE.test(line)) {
+			nodes.push(<hr key={key} className="border-primary" />);
+			i++;
+			continue;
+		}
+
+		if (QUOTE.test(line)) {
+			const body: string[] = [];
+			while (i < lines.length && QUOTE.test(lines[i])) body.push(lines[i++].replace(QUOTE, ''));
+			nodes.push(
+				<blockquote key={key} className="border-l-2 border-tertiary pl-3 text-secondary space-y-2">
+					{renderBlocks(body)}
+				</blockquote>
+			);
+			continue;
+		}
+
+		if (LIST_ITEM.test(line)) {
+			const list = renderList(lines, i, key);
+			nodes.push(list.node);
+			i = list.next;
+			continue;
+		}
+
+		const paragraph: string[] = [];
+		while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines[i]))) paragraph.push(lines[i++].trim());
+		nodes.push(<p key={key}>{renderInline(paragraph.join('\n'))}</p>);
+	}
+	return nodes;
+}
+
+export function Markdown({ source }: MarkdownProps) {
+	return <div className="space-y-2 text-sm text-primary leading-relaxed break-words">{renderBlocks(source.split(/\r?\n/))}</div>;
+}
@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useState } from 'react';
+import { RotateCcw, X } from 'lucide-react';
+import { NoteRevision, Problem } from '../types';
+import { loadNoteRevisions } from '../storage';
+import { getPendingOperations } from '../syncQueue';
+import { useSession } from '../session';
+import { diffLines } from '../utils';
+import { MONOSPACE } from './CodeBlock';
+import { Markdown } from './Markdown';
+
+export interface NoteModalProps {
+	problem: Problem;
+	readOnly: boolean;
+	onSave: (note: string) => void;
+	onClose: () => void;
+}
+
+const MAX_NOTE_LINES = 1000;
+
+// Revisions still waiting in the sync queue, so the version just replaced shows up straight away
+function pendingRevisions(problemId: string): NoteRevision[] {
+	return getPendingOperations().flatMap((op) => (op.type === 'recordNoteRevision' && op.revision.problemId === problemId ? [op.revision] : []));
+}
+
+function NoteDiff({ revision, draft }: { revision: NoteRevision; draft: string }) {
+	const lines = useMemo(() => diffLines(revision.note, draft), [revision.note, draft]);
+	return (
+		<pre className="p-3 overflow-auto text-xs leading-relaxed rounded-md border border-primary bg-layer-01" style={{ fontFamily: MONOSPACE }}>
+			{lines.map((line, i) => (
+				<div
+					key={i}
+					style={
+						line.kind === 'same'
+							? { color: 'var(--text-secondary)' }
+							: { color: line.kind === 'added' ? 'var(--green-60)' : 'var(--red-60)', backgroundColor: line.kind === 'added' ? 'var(--green-10)' : 'var(--red-10)' }
+					}
+				>
+					{line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}
+					{line.text}
+				</div>
+			))}
+		</pre>
+	);
+}
+
+// Edit a problem's note as Markdown next to its preview, or go back through earlier versions
+export function NoteModal({ problem, readOnly, onSave, onClose }: NoteModalProps) {
+	const session = useSession();
+	const [draft, setDraft] = useState(problem.note ?? '');
+	const [view, setView] = useState<'write' | 'history'>('write');
+	const [revisions, setRevisions] = useState<NoteRevision[] | null>(null);
+	const [selectedId, setSelectedId] = useState<string | null>(null);
+	const [error, setError] = useState<string | null>(null);
+	const selected = revisions?.find((r) => r.id === selectedId) ?? revisions?.[0];
+
+	useEffect(() => {
+		let cancelled = false;
+		loadNoteRevisions(problem.id)
+			.then((loaded) => {
+				if (cancelled) return;
+				const known = new Set(loaded.map((r) => r.id));
+				const merged = [...pendingRevisions(problem.id).filter((r) => !known.has(r.id)), ...loaded];
+				setRevisions(merged.sort((a, b) => b.savedAt.localeCompare(a.savedAt)));
+			})
+			.catch((e) => {
+				console.error('Failed to load note history', e);
+				if (!cancelled) setError('Could not load earlier versions of this note.');
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [problem.id]);
+
+	function handleDraftChange(e: React.ChangeEvent<HTMLTextAreaElement>) {
+		const lines = e.target.value.split(/\r?\n/);
+		setDraft(lines.length <= MAX_NOTE_LINES ? e.target.value : lines.slice(0, MAX_NOTE_LINES).join('\n'));
+	}
+
+	// Restoring only fills the editor; saving it keeps the current note in the history too
+	function restore(revision: NoteRevision) {
+		setDraft(revision.note);
+		setView('write');
+	}
+
+	const tabClass = (active: boolean) =>
+		`px-3 py-1 rounded-md text-xs font-medium transition-colors ${active ? 'bg-layer-03 text-primary' : 'text-secondary hover:text-primary'}`;
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center" style={{ backgroundColor: '#00000080' }}>
+			<div className="bg-layer-02 rounded-lg border border-primary shadow-layer-2 w-[min(95vw,1200px)] h-[85vh] flex flex-col">
+				<div className="px-4 py-3 border-b border-primary flex items-center gap-3">
+					<div className="text-primary font-semibold">Notes · {problem.title}</div>
+					<div className="flex gap-1 ml-4">
+						<button className={tabClass(view === 'write')} onClick={() => setView('write')}>
+							Write
+						</button>
+						<button className={tabClass(view === 'history')} onClick={() => setView('history')}>
+							History{revisions && revisions.length > 0 ? ` (${revisions.length})` : ''}
+						</button>
+					</div>
+					<button className="ml-auto text-tertiary hover:text-primary p-1.5 rounded-md hover:bg-layer-03" onClick={onClose}>
+						<X size={16} />
+					</button>
+				</div>
+				{view === 'write' ? (
+					<div className="flex-1 min-h-0 grid grid-cols-2 gap-4 p-4">
+						<div className="flex flex-col min-h-0">
+							<textarea
+								value={draft}
+								onChange={handleDraftChange}
+								readOnly={readOnly}
+								placeholder="Markdown: **bold**, `code`, lists, ```cpp fenced code```, $O(n \log n)$"
+								spellCheck={false}
+								className="flex-1 w-full resize-none rounded-md px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-60"
+								style={{ backgroundColor: 'var(--layer-03)', border: '1px solid var(--border-tertiary)', color: 'var(--text-primary)', fontFamily: MONOSPACE }}
+								autoFocus
+							/>
+							<div className="mt-2 text-sm text-tertiary">
+								{draft.split(/\r?\n/).length} / {MAX_NOTE_LINES} lines
+							</div>
+						</div>
+						<div className="min-h-0 overflow-auto rounded-md border border-primary bg-layer-01 px-4 py-3">
+							{draft.trim() ? <Markdown source={draft} /> : <div className="text-sm text-tertiary">Nothing to preview yet.</div>}
+						</div>
+					</div>
+				) : (
+					<div className="flex-1 min-h-0 p-4 text-sm">
+						{error && <div className="text-secondary">{error}</div>}
+						{!error && revisions === null && <div className="text-secondary">Loading…</div>}
+						{revisions?.length === 0 && (
+							<div className="text-secondary">
+								{session.user ? 'No earlier versions yet. Saving a changed note keeps the one it replaces here.' : 'Sign in to keep earlier versions of your notes.'}
+							</div>
+						)}
+						{revisions && selected && (
+							<div className="h-full grid grid-cols-[16rem_1fr] gap-4">
+								<div className="overflow-auto space-y-1">
+									{revisions.map((revision) => (
+										<button
+											key={revision.id}
+											className={`w-full text-left rounded-md px-2 py-1.5 ${revision.id === selected.id ? 'bg-layer-03' : 'hover:bg-layer-03'}`}
+											onClick={() => setSelectedId(revision.id)}
+										>
+											<div className="text-primary">{new Date(revision.savedAt).toLocaleString()}</div>
+											<div className="text-xs text-tertiary truncate">{revision.note.split(/\r?\n/)[0]}</div>
+										</button>
+									))}
+								</div>
+								<div className="min-h-0 flex flex-col gap-2">
+									<div className="flex items-center gap-3">
+										<div className="text-secondary">Compared with your current draft: - only in this version, + only in the draft.</div>
+										{!readOnly && (
+											<button
+												className="ml-auto inline-flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium"
+												style={{ backgroundColor: 'var(--teal-60)', color: 'var(--text-reverse)' }}
+												onClick={() => restore(selected)}
+											>
+												<RotateCcw size={14} /> Restore
+											</button>
+										)}
+									</div>
+									<div className="flex-1 min-h-0 overflow-auto">
+										<NoteDiff revision={selected} draft={draft} />
+									</div>
+								</div>
+							</div>
+						)}
+					</div>
+				)}
+				<div className="px-4 py-3 border-t border-primary flex justify-end gap-3">
+					<button className="px-3 py-1.5 rounded-md bg-layer-03 text-secondary hover:text-primary hover:bg-layer-02 border border-tertiary transition-colors" onClick={onClose}>
+						Cancel
+					</button>
+					<button
+						className="px-3 py-1.5 rounded-md text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+						style={{ backgroundColor: 'var(--green-60)', color: 'var(--text-reverse)' }}
+						disabled={readOnly}
+						onClick={() => onSave(draft)}
+					>
+						Save Notes
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+}
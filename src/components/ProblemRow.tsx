@@ -1,45 +1,50 @@
 import { useState } from 'react';
-import { DifficultyBadge, PlatformBadge } from './Badge';
-import { Problem } from '../types';
-import { ExternalLink, Trash2, Edit2, CheckSquare, Square, X } from 'lucide-react';
+import { DifficultyBadge, PlatformBadge, TagBadge } from './Badge';
+import { StatusPicker } from './StatusPicker';
+import { Platform, Problem, ProblemStatus } from '../types';
+import { PLATFORMS, PLATFORM_REGISTRY } from '../platforms';
+import { parseTags } from '../utils';
+import { ExternalLink, Trash2, Edit2, History, Code } from 'lucide-react';
+import { categoryPermissions, usePermissions } from '../session';
+import { startAttempt } from '../attempts';
+import { AttemptHistory } from './AttemptHistory';
+import { SolutionsModal } from './SolutionsModal';
+import { NoteModal } from './NoteModal';
+import { DuplicateMatch, describeDuplicates } from '../duplicates';
 
 export interface ProblemRowProps {
 	problem: Problem;
-	onToggleComplete: (completed: boolean) => void;
+	// The problem sits in one of the user's personal categories
+	personal?: boolean;
+	onChangeStatus: (status: ProblemStatus) => void;
 	onDelete: () => void;
 	onEdit: (updates: Partial<Problem>) => void;
-	readOnly?: boolean; // catalog fields
-	progressReadOnly?: boolean; // checkbox + notes
+	// Other problems linking to the same place, to warn about while editing the link
+	findDuplicates?: (url: string) => DuplicateMatch[];
+	// Optional drag-and-drop props for reordering problems
+	draggable?: boolean;
+	onDragStart?: (e: React.DragEvent<HTMLTableRowElement>) => void;
+	onDragOver?: (e: React.DragEvent<HTMLTableRowElement>) => void;
+	onDrop?: (e: React.DragEvent<HTMLTableRowElement>) => void;
+	onDragEnd?: (e: React.DragEvent<HTMLTableRowElement>) => void;
 }
 
-export function ProblemRow({ problem, onToggleComplete, onDelete, onEdit, readOnly, progressReadOnly }: ProblemRowProps) {
+export function ProblemRow({ problem, personal, onChangeStatus, onDelete, onEdit, findDuplicates, draggable, onDragStart, onDragOver, onDrop, onDragEnd }: ProblemRowProps) {
+	const { canEditCatalog, canTrackProgress } = categoryPermissions(usePermissions(), { personal });
+	const readOnly = !canEditCatalog; // catalog fields
+	const progressReadOnly = !canTrackProgress; // status + notes
 	const [editing, setEditing] = useState(false);
 	const [title, setTitle] = useState(problem.title);
 	const [url, setUrl] = useState(problem.url);
 	const [platform, setPlatform] = useState(problem.platform);
 	const [difficulty, setDifficulty] = useState(problem.difficulty);
+	const [tags, setTags] = useState((problem.tags ?? []).join(', '));
 	const [note, setNote] = useState(problem.note ?? '');
 	const [isNoteModalOpen, setIsNoteModalOpen] = useState(false);
-	const [noteDraft, setNoteDraft] = useState(problem.note ?? '');
-
-	function openNoteModal() {
-		setNoteDraft(problem.note ?? '');
-		setIsNoteModalOpen(true);
-	}
-
-	function closeNoteModal() {
-		setIsNoteModalOpen(false);
-	}
-
-	function handleNoteDraftChange(e: React.ChangeEvent<HTMLTextAreaElement>) {
-		const value = e.target.value;
-		const lines = value.split(/\r?\n/);
-		if (lines.length <= 1000) {
-			setNoteDraft(value);
-		} else {
-			setNoteDraft(lines.slice(0, 1000).join('\n'));
-		}
-	}
+	const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+	const [isSolutionsOpen, setIsSolutionsOpen] = useState(false);
+	const solutionCount = problem.solutions?.length ?? 0;
+	const urlDuplicates = editing && findDuplicates ? findDuplicates(url) : [];
 
 	// Reset form when editing starts
 	function startEditing() {
@@ -48,25 +53,25 @@ export function ProblemRow({ problem, onToggleComplete, onDelete, onEdit, readOn
 		setUrl(problem.url);
 		setPlatform(problem.platform);
 		setDifficulty(problem.difficulty);
+		setTags((problem.tags ?? []).join(', '));
 		setNote(problem.note ?? '');
 		setEditing(true);
 	}
 
 	return (
-		<tr className="border-b border-primary/20 hover:bg-layer-03/50 transition-colors">
+		<tr
+			className="border-b border-primary/20 hover:bg-layer-03/50 transition-colors"
+			draggable={draggable && !editing}
+			onDragStart={onDragStart}
+			onDragOver={onDragOver}
+			onDrop={onDrop}
+			onDragEnd={onDragEnd}
+			style={{
+				cursor: draggable && !editing ? 'grab' : undefined
+			}}
+		>
 			<td className="px-4 py-3">
-				<button 
-					onClick={() => {
-						if (!progressReadOnly) {
-							onToggleComplete(!problem.completed);
-						}
-					}} 
-					className={`text-tertiary hover:text-primary transition-colors ${progressReadOnly ? 'opacity-50 cursor-not-allowed hover:text-tertiary' : ''}`}
-					disabled={progressReadOnly}
-					title={progressReadOnly ? 'Sign in to track progress' : (problem.completed ? 'Mark as incomplete' : 'Mark as complete')}
-				>
-					{problem.completed ? <CheckSquare size={18} /> : <Square size={18} />}
-				</button>
+				<StatusPicker status={problem.status} onChange={onChangeStatus} disabled={progressReadOnly} />
 			</td>
 			<td className="px-4 py-3 w-full">
 				{editing && !readOnly ? (
@@ -83,7 +88,7 @@ export function ProblemRow({ problem, onToggleComplete, onDelete, onEdit, readOn
 				{editing && !readOnly ? (
 					<select 
 						value={platform} 
-						onChange={(e) => setPlatform(e.target.value as any)} 
+						onChange={(e) => setPlatform(e.target.value as Platform)} 
 						className="rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-60"
 						style={{ 
 							backgroundColor: 'var(--layer-03)', 
@@ -91,10 +96,11 @@ export function ProblemRow({ problem, onToggleComplete, onDelete, onEdit, readOn
 							color: 'var(--text-primary)'
 						}}
 					>
-						<option value="GFG">GFG</option>
-						<option value="LeetCode">LeetCode</option>
-						<option value="HackerRank">HackerRank</option>
-						<option value="Codeforces">Codeforces</option>
+						{PLATFORMS.map((p) => (
+							<option key={p} value={p}>
+								{PLATFORM_REGISTRY[p].label}
+							</option>
+						))}
 					</select>
 				) : (
 					<PlatformBadge platform={problem.platform} />
@@ -102,35 +108,60 @@ export function ProblemRow({ problem, onToggleComplete, onDelete, onEdit, readOn
 			</td>
 			<td className="px-4 py-3 whitespace-nowrap">
 				{editing && !readOnly ? (
-					<input value={url} onChange={(e) => setUrl(e.target.value)} className="w-64 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-60" style={{ 
-						backgroundColor: 'var(--layer-03)', 
-						border: '1px solid var(--border-tertiary)',
-						color: 'var(--text-primary)'
-					}} />
+					<div className="flex flex-col gap-1">
+						<input value={url} onChange={(e) => setUrl(e.target.value)} className="w-64 rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-60" style={{ 
+							backgroundColor: 'var(--layer-03)', 
+							border: '1px solid var(--border-tertiary)',
+							color: 'var(--text-primary)'
+						}} />
+						{urlDuplicates.length > 0 && (
+							<div className="w-64 whitespace-normal text-xs" style={{ color: 'var(--yellow-60)' }}>
+								Also added as {describeDuplicates(urlDuplicates)}
+							</div>
+						)}
+					</div>
 				) : (
-					<a href={problem.url} target="_blank" className="inline-flex items-center gap-2 text-blue-60 hover:text-blue-80 transition-colors font-medium">
+					<a href={problem.url} target="_blank" onClick={() => startAttempt(problem.id)} className="inline-flex items-center gap-2 text-blue-60 hover:text-blue-80 transition-colors font-medium">
 						<ExternalLink size={16} /> Link
 					</a>
 				)}
 			</td>
 			<td className="px-4 py-3 whitespace-nowrap">
 				{editing && !readOnly ? (
-					<select 
-						value={difficulty} 
-						onChange={(e) => setDifficulty(e.target.value as any)} 
-						className="rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-60"
-						style={{ 
-							backgroundColor: 'var(--layer-03)', 
-							border: '1px solid var(--border-tertiary)',
-							color: 'var(--text-primary)'
-						}}
-					>
-						<option value="Easy">Easy</option>
-						<option value="Medium">Medium</option>
-						<option value="Hard">Hard</option>
-					</select>
+					<div className="flex flex-col gap-2">
+						<select 
+							value={difficulty} 
+							onChange={(e) => setDifficulty(e.target.value as any)} 
+							className="rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-60"
+							style={{ 
+								backgroundColor: 'var(--layer-03)', 
+								border: '1px solid var(--border-tertiary)',
+								color: 'var(--text-primary)'
+							}}
+						>
+							<option value="Easy">Easy</option>
+							<option value="Medium">Medium</option>
+							<option value="Hard">Hard</option>
+						</select>
+						<input
+							value={tags}
+							onChange={(e) => setTags(e.target.value)}
+							placeholder="Tags, comma separated"
+							className="w-48 rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-60"
+							style={{ 
+								backgroundColor: 'var(--layer-03)', 
+								border: '1px solid var(--border-tertiary)',
+								color: 'var(--text-primary)'
+							}}
+						/>
+					</div>
 				) : (
-					<DifficultyBadge difficulty={problem.difficulty} />
+					<div className="flex flex-wrap items-center gap-1.5">
+						<DifficultyBadge difficulty={problem.difficulty} />
+						{(problem.tags ?? []).map((tag) => (
+							<TagBadge key={tag} tag={tag} />
+						))}
+					</div>
 				)}
 			</td>
 			<td className="px-4 py-3">
@@ -145,7 +176,7 @@ export function ProblemRow({ problem, onToggleComplete, onDelete, onEdit, readOn
 					<button
 						title={problem.note ? 'Edit notes' : 'Add notes'}
 						className={`transition-colors p-1.5 rounded-md hover:bg-layer-03 ${problem.note ? 'text-primary' : 'text-tertiary hover:text-primary'} ${progressReadOnly ? 'opacity-50 cursor-not-allowed hover:bg-transparent hover:text-tertiary' : ''}`}
-						onClick={() => { if (!progressReadOnly) openNoteModal(); }}
+						onClick={() => { if (!progressReadOnly) setIsNoteModalOpen(true); }}
 					>
 						{/* Notebook icon (inline SVG) */}
 						<svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" aria-hidden="true">
@@ -156,46 +187,35 @@ export function ProblemRow({ problem, onToggleComplete, onDelete, onEdit, readOn
 							<path d="M9.5 16H13"/>
 						</svg>
 					</button>
+					<button
+						title={solutionCount > 0 ? `Solutions (${solutionCount})` : 'Add a solution'}
+						className={`inline-flex items-center gap-1 transition-colors p-1.5 rounded-md hover:bg-layer-03 ${solutionCount > 0 ? 'text-primary' : 'text-tertiary hover:text-primary'}`}
+						onClick={() => setIsSolutionsOpen(true)}
+					>
+						<Code size={16} />
+						{solutionCount > 0 && <span className="text-xs">{solutionCount}</span>}
+					</button>
 				</div>
+				{isSolutionsOpen && (
+					<SolutionsModal
+						problem={problem}
+						readOnly={progressReadOnly}
+						onSave={(solutions) => onEdit({ solutions })}
+						onClose={() => setIsSolutionsOpen(false)}
+					/>
+				)}
 				{isNoteModalOpen && (
-					<div className="fixed inset-0 z-50 flex items-center justify-center" style={{ backgroundColor: '#00000080' }}>
-						<div className="bg-layer-02 rounded-lg border border-primary shadow-layer-2 w-[min(90vw,900px)] max-h-[85vh] flex flex-col">
-							<div className="px-4 py-3 border-b border-primary flex items-center justify-between">
-								<div className="text-primary font-semibold">Edit Notes</div>
-								<button className="text-tertiary hover:text-primary p-1.5 rounded-md hover:bg-layer-03" onClick={closeNoteModal}>
-									<X size={16} />
-								</button>
-							</div>
-							<div className="p-4 overflow-auto">
-								<textarea
-									value={noteDraft}
-									onChange={handleNoteDraftChange}
-									rows={24}
-									className="w-full rounded-md px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-60"
-									style={{ backgroundColor: 'var(--layer-03)', border: '1px solid var(--border-tertiary)', color: 'var(--text-primary)', fontFamily: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace' }}
-								/>
-								<div className="mt-2 text-sm text-tertiary">
-									{noteDraft.split(/\r?\n/).length} / 1000 lines
-								</div>
-							</div>
-							<div className="px-4 py-3 border-t border-primary flex justify-end gap-3">
-								<button className="px-3 py-1.5 rounded-md bg-layer-03 text-secondary hover:text-primary hover:bg-layer-02 border border-tertiary transition-colors" onClick={closeNoteModal}>Cancel</button>
-								<button
-									className="px-3 py-1.5 rounded-md text-xs font-medium"
-									style={{ backgroundColor: 'var(--green-60)', color: 'var(--text-reverse)' }}
-									onClick={() => {
-										if (progressReadOnly) return;
-										onEdit({ title, url, platform, difficulty, note: noteDraft });
-										setNote(noteDraft);
-										setIsNoteModalOpen(false);
-										setEditing(false);
-									}}
-								>
-									Save Notes
-								</button>
-							</div>
-						</div>
-					</div>
+					<NoteModal
+						problem={problem}
+						readOnly={progressReadOnly}
+						onSave={(noteDraft) => {
+							// Only the note: the other fields here may be stale, and sending them would undo edits made elsewhere
+							onEdit({ note: noteDraft });
+							setNote(noteDraft);
+							setIsNoteModalOpen(false);
+						}}
+						onClose={() => setIsNoteModalOpen(false)}
+					/>
 				)}
 			</td>
 			<td className="px-4 py-3">
@@ -205,7 +225,7 @@ export function ProblemRow({ problem, onToggleComplete, onDelete, onEdit, readOn
 							className="px-3 py-1.5 bg-green-60 rounded-md text-xs font-medium hover:opacity-80 transition-opacity"
 							style={{ color: 'var(--text-reverse)' }}
 							onClick={() => {
-								onEdit({ title, url, platform, difficulty, note });
+								onEdit({ title, url, platform, difficulty, tags: parseTags(tags), note });
 								setEditing(false);
 							}}
 						>
@@ -227,7 +247,15 @@ export function ProblemRow({ problem, onToggleComplete, onDelete, onEdit, readOn
 					>
 						<Trash2 size={16} />
 					</button>
+					<button
+						title="Attempt history"
+						className="hover:text-primary transition-colors p-1.5 rounded-md hover:bg-layer-03"
+						onClick={() => setIsHistoryOpen(true)}
+					>
+						<History size={16} />
+					</button>
 				</div>
+				{isHistoryOpen && <AttemptHistory problem={problem} onClose={() => setIsHistoryOpen(false)} />}
 			</td>
 		</tr>
 	);
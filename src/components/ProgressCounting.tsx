@@ -0,0 +1,46 @@
+import { useState } from 'react';
+import { SlidersHorizontal } from 'lucide-react';
+import { ProblemStatus } from '../types';
+import { PROBLEM_STATUSES, STATUS_LABELS } from '../status';
+import { StatusIcon } from './StatusPicker';
+
+export interface ProgressCountingProps {
+	counted: ProblemStatus[];
+	onChange: (counted: ProblemStatus[]) => void;
+}
+
+// Chooses which statuses the progress bars count as done
+export function ProgressCounting({ counted, onChange }: ProgressCountingProps) {
+	const [open, setOpen] = useState(false);
+
+	function toggle(status: ProblemStatus) {
+		const next = counted.includes(status) ? counted.filter((s) => s !== status) : [...counted, status];
+		onChange(PROBLEM_STATUSES.filter((s) => next.includes(s)));
+	}
+
+	return (
+		<div className="relative">
+			<button
+				onClick={() => setOpen((v) => !v)}
+				className="flex items-center gap-1 rounded-md px-1.5 py-0.5 text-xs text-gray-300 hover:bg-layer-03 transition-colors"
+				title="Choose what counts as done"
+			>
+				<SlidersHorizontal size={12} /> Counting
+			</button>
+			{open && (
+				<div className="absolute left-0 top-full mt-2 z-40 w-56 bg-layer-02 rounded-lg border border-primary shadow-layer-2 p-3 text-sm">
+					<div className="text-secondary mb-2">Count as done</div>
+					<div className="space-y-1.5">
+						{PROBLEM_STATUSES.map((s) => (
+							<label key={s} className="flex items-center gap-2 text-primary cursor-pointer">
+								<input type="checkbox" checked={counted.includes(s)} onChange={() => toggle(s)} />
+								<StatusIcon status={s} size={14} />
+								{STATUS_LABELS[s]}
+							</label>
+						))}
+					</div>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,100 @@
+import { ExternalLink, X } from 'lucide-react';
+import { Category, Problem } from '../types';
+import { RECALL_LABELS, RecallRating } from '../revision';
+import { startAttempt } from '../attempts';
+import { usePermissions } from '../session';
+import { DifficultyBadge } from './Badge';
+
+export interface RevisionItem {
+	category: Category;
+	problem: Problem;
+}
+
+export interface RevisionQueueProps {
+	items: RevisionItem[];
+	today: string;
+	onRate: (categoryId: string, problemId: string, rating: RecallRating) => void;
+	onClose: () => void;
+}
+
+const RATINGS: RecallRating[] = ['again', 'hard', 'good', 'easy'];
+
+const RATING_COLORS: Record<RecallRating, string> = {
+	again: 'var(--red-60)',
+	hard: 'var(--yellow-60)',
+	good: 'var(--green-60)',
+	easy: 'var(--blue-60)',
+};
+
+// Solved problems whose next review date has come, across all categories
+export function RevisionQueue({ items, today, onRate, onClose }: RevisionQueueProps) {
+	const { canTrackProgress } = usePermissions();
+
+	return (
+		<div className="bg-layer-02 rounded-xl border border-primary overflow-hidden shadow-layer-1">
+			<div className="flex items-center justify-between px-6 py-4">
+				<span className="font-semibold text-primary text-lg">Due for revision</span>
+				<button className="text-tertiary hover:text-primary p-1.5 rounded-md hover:bg-layer-03" onClick={onClose} title="Close">
+					<X size={16} />
+				</button>
+			</div>
+			<div className="px-4 pb-6">
+				{items.length === 0 ? (
+					<div className="px-2 text-sm text-secondary">Nothing is due today.</div>
+				) : (
+					<div className="overflow-x-auto">
+						<table className="min-w-full text-sm">
+							<thead className="text-left text-secondary border-b border-primary">
+								<tr>
+									<th className="px-4 py-3 font-medium">Problem</th>
+									<th className="px-4 py-3 font-medium">Category</th>
+									<th className="px-4 py-3 font-medium">Difficulty</th>
+									<th className="px-4 py-3 font-medium">Due</th>
+									<th className="px-4 py-3 font-medium">How well did you recall it?</th>
+								</tr>
+							</thead>
+							<tbody>
+								{items.map(({ category, problem }) => (
+									<tr key={problem.id} className="border-b border-primary/20 hover:bg-layer-03/50 transition-colors">
+										<td className="px-4 py-3 w-full">
+											<a
+												href={problem.url}
+												target="_blank"
+												onClick={() => startAttempt(problem.id)}
+												className="inline-flex items-center gap-2 text-primary hover:text-blue-60 transition-colors font-medium"
+											>
+												{problem.title} <ExternalLink size={14} />
+											</a>
+										</td>
+										<td className="px-4 py-3 whitespace-nowrap text-secondary">{category.title}</td>
+										<td className="px-4 py-3">
+											<DifficultyBadge difficulty={problem.difficulty} />
+										</td>
+										<td className="px-4 py-3 whitespace-nowrap text-secondary">
+											{problem.review!.due < today ? `Overdue since ${problem.review!.due}` : 'Today'}
+										</td>
+										<td className="px-4 py-3">
+											<div className="flex gap-2">
+												{RATINGS.map((rating) => (
+													<button
+														key={rating}
+														disabled={!canTrackProgress}
+														onClick={() => onRate(category.id, problem.id, rating)}
+														className="px-3 py-1.5 rounded-md text-xs font-medium hover:opacity-80 transition-opacity disabled:opacity-50 disabled:cursor-not-allowed"
+														style={{ backgroundColor: RATING_COLORS[rating], color: 'var(--text-reverse)' }}
+													>
+														{RECALL_LABELS[rating]}
+													</button>
+												))}
+											</div>
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
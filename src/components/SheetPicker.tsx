@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, Plus, X } from 'lucide-react';
+import { Catalog, CatalogDetails, createCatalog, listCatalogs, setSubscribed, updateCatalog } from '../storage';
+import { usePermissions, useSession } from '../session';
+import { ProblemStatus } from '../types';
+
+export interface SheetPickerProps {
+	// Switch to another sheet; resolves once its data is on screen
+	onSelect: (catalogId: string) => Promise<void>;
+	// Progress on the sheet being shown, counted from what is on screen (including unsynced changes)
+	progress: { done: number; all: number };
+	// Statuses the user counts as done
+	counted: ProblemStatus[];
+}
+
+const EMPTY_DETAILS: CatalogDetails = { title: '', description: '', isPublic: true };
+
+function errorMessage(e: unknown): string {
+	if (e && typeof e === 'object' && 'message' in e) return String((e as { message: unknown }).message);
+	return String(e);
+}
+
+function SheetForm({ initial, submitLabel, onSubmit, onCancel }: {
+	initial: CatalogDetails;
+	submitLabel: string;
+	onSubmit: (details: CatalogDetails) => void;
+	onCancel: () => void;
+}) {
+	const [details, setDetails] = useState(initial);
+	const inputStyle = { backgroundColor: 'var(--layer-03)', border: '1px solid var(--border-tertiary)', color: 'var(--text-primary)' };
+
+	return (
+		<div className="space-y-2">
+			<input
+				value={details.title}
+				onChange={(e) => setDetails((d) => ({ ...d, title: e.target.value }))}
+				placeholder="Title, e.g. Blind 75"
+				className="w-full rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-60"
+				style={inputStyle}
+				autoFocus
+			/>
+			<textarea
+				value={details.description}
+				onChange={(e) => setDetails((d) => ({ ...d, description: e.target.value }))}
+				placeholder="Description"
+				rows={2}
+				className="w-full rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-60"
+				style={inputStyle}
+			/>
+			<label className="flex items-center gap-2 text-xs text-secondary">
+				<input type="checkbox" checked={details.isPublic} onChange={(e) => setDetails((d) => ({ ...d, isPublic: e.target.checked }))} />
+				Anyone can find and read it
+			</label>
+			<div className="flex justify-end gap-2">
+				<button className="px-2 py-1 text-xs rounded-md bg-layer-03 text-secondary hover:text-primary border border-tertiary" onClick={onCancel}>
+					Cancel
+				</button>
+				<button
+					className="px-2 py-1 text-xs rounded-md font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+					style={{ backgroundColor: 'var(--green-60)', color: 'var(--text-reverse)' }}
+					disabled={!details.title.trim()}
+					onClick={() => onSubmit({ ...details, title: details.title.trim(), description: details.description.trim() })}
+				>
+					{submitLabel}
+				</button>
+			</div>
+		</div>
+	);
+}
+
+// Switch between sheets, subscribe to others, and (for admins and owners) manage them
+export function SheetPicker({ onSelect, progress, counted }: SheetPickerProps) {
+	const session = useSession();
+	const { canEditSheet, canCreateSheets, canSubscribe } = usePermissions();
+	const [open, setOpen] = useState(false);
+	const [catalogs, setCatalogs] = useState<Catalog[]>([]);
+	const [editing, setEditing] = useState<'new' | 'current' | null>(null);
+	const [busy, setBusy] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	const current = catalogs.find((c) => c.id === session.catalogId);
+	const mine = catalogs.filter((c) => c.subscribed || c.role !== null);
+	const others = catalogs.filter((c) => !c.subscribed && c.role === null);
+
+	async function refresh() {
+		try {
+			setCatalogs(await listCatalogs());
+		} catch (e) {
+			console.error('Failed to load sheets', e);
+			setError(errorMessage(e));
+		}
+	}
+
+	// The list also names the current sheet in the header, so keep it loaded; opening
+	// the picker reloads it so progress on the other sheets is current
+	useEffect(() => {
+		if (session.ready) refresh();
+	}, [session.ready, session.user?.id, session.catalogId, open]);
+
+	function sheetProgress(catalog: Catalog): { done: number; all: number } | null {
+		if (catalog.id === session.catalogId) return progress;
+		if (!catalog.progress) return null;
+		const counts = Object.entries(catalog.progress) as [ProblemStatus, number][];
+		return {
+			done: counts.reduce((sum, [status, n]) => (counted.includes(status) ? sum + n : sum), 0),
+			all: counts.reduce((sum, [, n]) => sum + n, 0),
+		};
+	}
+
+	async function run(task: () => Promise<void>) {
+		setBusy(true);
+		setError(null);
+		try {
+			await task();
+			await refresh();
+		} catch (e) {
+			console.error('Sheet action failed', e);
+			setError(errorMessage(e));
+		} finally {
+			setBusy(false);
+		}
+	}
+
+	function renderSheet(catalog: Catalog) {
+		const isCurrent = catalog.id === session.catalogId;
+		const sheet = catalog.subscribed || catalog.role !== null ? sheetProgress(catalog) : null;
+		return (
+			<div key={catalog.id} className={`flex items-start gap-2 rounded-md px-2 py-1.5 ${isCurrent ? 'bg-layer-03' : 'hover:bg-layer-03'}`}>
+				<button
+					className="flex-1 text-left disabled:cursor-default"
+					disabled={busy || isCurrent}
+					onClick={() => run(() => onSelect(catalog.id)).then(() => setOpen(false))}
+				>
+					<div className="flex items-baseline justify-between gap-2">
+						<span className="text-primary font-medium">{catalog.title}</span>
+						{sheet && (
+							<span className="text-xs text-secondary whitespace-nowrap" title="Done / problems on this sheet">
+								{sheet.done} / {sheet.all}
+							</span>
+						)}
+					</div>
+					{catalog.description && <div className="text-xs text-tertiary">{catalog.description}</div>}
+				</button>
+				{canSubscribe && catalog.role === null && (
+					<button
+						className="text-xs px-2 py-0.5 rounded-md border border-tertiary text-secondary hover:text-primary disabled:opacity-50"
+						disabled={busy}
+						onClick={() => run(() => setSubscribed(catalog.id, !catalog.subscribed))}
+						title={catalog.subscribed ? 'Unsubscribe' : 'Subscribe'}
+					>
+						{catalog.subscribed ? <X size={12} /> : 'Subscribe'}
+					</button>
+				)}
+			</div>
+		);
+	}
+
+	return (
+		<div className="relative">
+			<button
+				onClick={() => setOpen((v) => !v)}
+				className="flex items-center gap-1 rounded-md px-1.5 py-0.5 text-sm text-gray-300 hover:bg-layer-03 transition-colors"
+				title="Switch sheet"
+			>
+				{current?.title ?? 'Choose a sheet'} <ChevronDown size={14} />
+			</button>
+			{open && (
+				<div className="absolute left-0 top-full mt-2 z-40 w-80 bg-layer-02 rounded-lg border border-primary shadow-layer-2 p-3 text-sm space-y-3">
+					{error && (
+						<div className="rounded-md px-2 py-1.5 text-xs" style={{ backgroundColor: 'var(--red-10)', color: 'var(--red-60)' }}>
+							{error}
+						</div>
+					)}
+					<div>
+						<div className="text-secondary mb-1">Your sheets</div>
+						{mine.length > 0 ? mine.map(renderSheet) : <div className="text-xs text-tertiary px-2">Subscribe to a sheet below to keep it here.</div>}
+					</div>
+					{others.length > 0 && (
+						<div>
+							<div className="text-secondary mb-1">Browse</div>
+							{others.map(renderSheet)}
+						</div>
+					)}
+					{editing === 'new' && (
+						<SheetForm
+							initial={EMPTY_DETAILS}
+							submitLabel="Create sheet"
+							onCancel={() => setEditing(null)}
+							onSubmit={(details) =>
+								run(async () => {
+									const id = await createCatalog(details);
+									setEditing(null);
+									await onSelect(id);
+								})
+							}
+						/>
+					)}
+					{editing === 'current' && current && (
+						<SheetForm
+							initial={{ title: current.title, description: current.description, isPublic: current.isPublic }}
+							submitLabel="Save"
+							onCancel={() => setEditing(null)}
+							onSubmit={(details) =>
+								run(async () => {
+									await updateCatalog(current.id, details);
+									setEditing(null);
+								})
+							}
+						/>
+					)}
+					{editing === null && (canCreateSheets || (canEditSheet && current)) && (
+						<div className="flex gap-2 pt-1 border-t border-primary">
+							{canCreateSheets && (
+								<button className="mt-2 inline-flex items-center gap-1 text-xs text-secondary hover:text-primary" onClick={() => setEditing('new')}>
+									<Plus size={12} /> New sheet
+								</button>
+							)}
+							{canEditSheet && current && (
+								<button className="mt-2 text-xs text-secondary hover:text-primary" onClick={() => setEditing('current')}>
+									Edit this sheet
+								</button>
+							)}
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
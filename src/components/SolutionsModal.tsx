@@ -0,0 +1,180 @@
+import { useState } from 'react';
+import { Check, Copy, Edit2, Plus, Trash2, X } from 'lucide-react';
+import { Problem, Solution } from '../types';
+import { LANGUAGE_LABELS, SOLUTION_LANGUAGES, SolutionLanguage } from '../highlight';
+import { generateId } from '../utils';
+import { CodeBlock, MONOSPACE } from './CodeBlock';
+
+export interface SolutionsModalProps {
+	problem: Problem;
+	readOnly: boolean;
+	onSave: (solutions: Solution[]) => void;
+	onClose: () => void;
+}
+
+const inputStyle = { backgroundColor: 'var(--layer-03)', border: '1px solid var(--border-tertiary)', color: 'var(--text-primary)' };
+
+function CopyButton({ text }: { text: string }) {
+	const [copied, setCopied] = useState(false);
+
+	async function copy() {
+		try {
+			await navigator.clipboard.writeText(text);
+			setCopied(true);
+			setTimeout(() => setCopied(false), 1500);
+		} catch (e) {
+			console.error('Failed to copy solution', e);
+		}
+	}
+
+	return (
+		<button className="text-tertiary hover:text-primary p-1.5 rounded-md hover:bg-layer-03" onClick={copy} title="Copy code">
+			{copied ? <Check size={14} /> : <Copy size={14} />}
+		</button>
+	);
+}
+
+function SolutionEditor({ initial, onSave, onCancel }: { initial: Solution; onSave: (solution: Solution) => void; onCancel: () => void }) {
+	const [draft, setDraft] = useState(initial);
+
+	return (
+		<div className="rounded-md border border-primary p-3 space-y-3">
+			<div className="grid grid-cols-3 gap-3">
+				<select
+					value={draft.language}
+					onChange={(e) => setDraft((d) => ({ ...d, language: e.target.value as SolutionLanguage }))}
+					className="rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-60"
+					style={inputStyle}
+				>
+					{SOLUTION_LANGUAGES.map((language) => (
+						<option key={language} value={language}>
+							{LANGUAGE_LABELS[language]}
+						</option>
+					))}
+				</select>
+				<input
+					value={draft.timeComplexity ?? ''}
+					onChange={(e) => setDraft((d) => ({ ...d, timeComplexity: e.target.value }))}
+					placeholder="Time, e.g. O(n log n)"
+					className="rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-60"
+					style={inputStyle}
+				/>
+				<input
+					value={draft.spaceComplexity ?? ''}
+					onChange={(e) => setDraft((d) => ({ ...d, spaceComplexity: e.target.value }))}
+					placeholder="Space, e.g. O(1)"
+					className="rounded-md px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-60"
+					style={inputStyle}
+				/>
+			</div>
+			<textarea
+				value={draft.code}
+				onChange={(e) => setDraft((d) => ({ ...d, code: e.target.value }))}
+				rows={14}
+				placeholder="Paste your solution"
+				spellCheck={false}
+				className="w-full rounded-md px-3 py-2 text-xs focus:outline-none focus:ring-2 focus:ring-blue-60"
+				style={{ ...inputStyle, fontFamily: MONOSPACE }}
+				autoFocus
+			/>
+			<div className="flex justify-end gap-3">
+				<button className="px-3 py-1.5 rounded-md bg-layer-03 text-secondary hover:text-primary hover:bg-layer-02 border border-tertiary transition-colors" onClick={onCancel}>
+					Cancel
+				</button>
+				<button
+					className="px-3 py-1.5 rounded-md text-xs font-medium disabled:opacity-50 disabled:cursor-not-allowed"
+					style={{ backgroundColor: 'var(--green-60)', color: 'var(--text-reverse)' }}
+					disabled={!draft.code.trim()}
+					onClick={() =>
+						onSave({
+							...draft,
+							timeComplexity: draft.timeComplexity?.trim() || undefined,
+							spaceComplexity: draft.spaceComplexity?.trim() || undefined,
+						})
+					}
+				>
+					Save Solution
+				</button>
+			</div>
+		</div>
+	);
+}
+
+// A problem's solution snippets: read them highlighted, copy them, add and edit them
+export function SolutionsModal({ problem, readOnly, onSave, onClose }: SolutionsModalProps) {
+	const solutions = problem.solutions ?? [];
+	// The snippet being edited; a new one is not in the list yet
+	const [editing, setEditing] = useState<Solution | null>(null);
+
+	function startNew() {
+		const language = solutions[solutions.length - 1]?.language ?? 'cpp';
+		setEditing({ id: generateId('s'), language, code: '' });
+	}
+
+	function save(solution: Solution) {
+		const exists = solutions.some((s) => s.id === solution.id);
+		onSave(exists ? solutions.map((s) => (s.id === solution.id ? solution : s)) : [...solutions, solution]);
+		setEditing(null);
+	}
+
+	return (
+		<div className="fixed inset-0 z-50 flex items-center justify-center" style={{ backgroundColor: '#00000080' }}>
+			<div className="bg-layer-02 rounded-lg border border-primary shadow-layer-2 w-[min(90vw,900px)] max-h-[85vh] flex flex-col">
+				<div className="px-4 py-3 border-b border-primary flex items-center justify-between">
+					<div className="text-primary font-semibold">Solutions · {problem.title}</div>
+					<button className="text-tertiary hover:text-primary p-1.5 rounded-md hover:bg-layer-03" onClick={onClose}>
+						<X size={16} />
+					</button>
+				</div>
+				<div className="p-4 overflow-auto space-y-4 text-sm">
+					{solutions.length === 0 && !editing && <div className="text-secondary">No solutions yet.</div>}
+					{solutions.map((solution) =>
+						editing?.id === solution.id ? (
+							<SolutionEditor key={solution.id} initial={editing} onSave={save} onCancel={() => setEditing(null)} />
+						) : (
+							<div key={solution.id} className="rounded-md border border-primary bg-layer-01 overflow-hidden">
+								<div className="flex items-center gap-3 px-3 py-1.5 border-b border-primary">
+									<span className="font-medium text-primary">{LANGUAGE_LABELS[solution.language]}</span>
+									{solution.timeComplexity && <span className="text-xs text-secondary">Time {solution.timeComplexity}</span>}
+									{solution.spaceComplexity && <span className="text-xs text-secondary">Space {solution.spaceComplexity}</span>}
+									<div className="ml-auto flex items-center gap-1">
+										<CopyButton text={solution.code} />
+										{!readOnly && (
+											<>
+												<button className="text-tertiary hover:text-primary p-1.5 rounded-md hover:bg-layer-03" onClick={() => setEditing(solution)} title="Edit solution">
+													<Edit2 size={14} />
+												</button>
+												<button
+													className="text-tertiary hover:text-red-60 p-1.5 rounded-md hover:bg-red-10"
+													onClick={() => onSave(solutions.filter((s) => s.id !== solution.id))}
+													title="Delete solution"
+												>
+													<Trash2 size={14} />
+												</button>
+											</>
+										)}
+									</div>
+								</div>
+								<CodeBlock code={solution.code} language={solution.language} />
+							</div>
+						)
+					)}
+					{editing && !solutions.some((s) => s.id === editing.id) && (
+						<SolutionEditor initial={editing} onSave={save} onCancel={() => setEditing(null)} />
+					)}
+				</div>
+				{!readOnly && !editing && (
+					<div className="px-4 py-3 border-t border-primary flex justify-end">
+						<button
+							className="inline-flex items-center gap-2 px-3 py-1.5 rounded-md text-xs font-medium"
+							style={{ backgroundColor: 'var(--teal-60)', color: 'var(--text-reverse)' }}
+							onClick={startNew}
+						>
+							<Plus size={14} /> Add Solution
+						</button>
+					</div>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import { Circle, CircleCheck, CircleDashed, Lightbulb, LucideIcon, RotateCcw } from 'lucide-react';
+import { ProblemStatus } from '../types';
+import { PROBLEM_STATUSES, STATUS_COLORS, STATUS_LABELS } from '../status';
+
+const STATUS_ICONS: Record<ProblemStatus, LucideIcon> = {
+	todo: Circle,
+	attempted: CircleDashed,
+	solved: CircleCheck,
+	'solved-with-hint': Lightbulb,
+	'needs-revisit': RotateCcw,
+};
+
+export function StatusIcon({ status, size = 18 }: { status: ProblemStatus; size?: number }) {
+	const Icon = STATUS_ICONS[status];
+	return <Icon size={size} style={{ color: STATUS_COLORS[status] }} />;
+}
+
+export interface StatusPickerProps {
+	status: ProblemStatus;
+	onChange: (status: ProblemStatus) => void;
+	disabled?: boolean;
+}
+
+export function StatusPicker({ status, onChange, disabled }: StatusPickerProps) {
+	const [open, setOpen] = useState(false);
+
+	return (
+		<div className="relative">
+			<button
+				onClick={() => setOpen((v) => !v)}
+				onBlur={() => setOpen(false)}
+				className={`transition-opacity hover:opacity-80 ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}
+				disabled={disabled}
+				title={disabled ? 'Sign in to track progress' : `Status: ${STATUS_LABELS[status]}`}
+			>
+				<StatusIcon status={status} />
+			</button>
+			{open && !disabled && (
+				<div className="absolute left-0 top-full mt-1 z-40 w-44 bg-layer-02 rounded-lg border border-primary shadow-layer-2 py-1 text-sm">
+					{PROBLEM_STATUSES.map((s) => (
+						<button
+							key={s}
+							// Keep focus on the toggle so its blur does not close the menu before the click lands
+							onMouseDown={(e) => e.preventDefault()}
+							onClick={() => {
+								setOpen(false);
+								if (s !== status) onChange(s);
+							}}
+							className={`w-full flex items-center gap-2 px-3 py-1.5 text-left hover:bg-layer-03 transition-colors ${s === status ? 'text-primary font-medium' : 'text-secondary'}`}
+						>
+							<StatusIcon status={s} size={16} />
+							{STATUS_LABELS[s]}
+						</button>
+					))}
+				</div>
+			)}
+		</div>
+	);
+}
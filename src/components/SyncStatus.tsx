@@ -0,0 +1,141 @@
+import { useState } from 'react';
+import { RefreshCw, Trash2 } from 'lucide-react';
+import { ConflictPolicy } from '../types';
+import { SyncState } from '../storage';
+
+export interface SyncStatusProps {
+	state: SyncState;
+	onRetry: () => void;
+	onRetryFailed: () => void;
+	onDiscardFailed: () => void;
+	conflictPolicy?: ConflictPolicy;
+	onChangeConflictPolicy?: (policy: ConflictPolicy) => void;
+}
+
+function statusLabel(state: SyncState): string {
+	switch (state.status) {
+		case 'syncing':
+			return 'Syncing…';
+		case 'offline':
+			return state.pendingCount > 0 ? `Offline · ${state.pendingCount} pending` : 'Offline';
+		case 'error':
+			return state.failedCount > 0 ? `${state.failedCount} not saved` : 'Sync error';
+		case 'idle':
+			return state.pendingCount > 0 ? `${state.pendingCount} pending` : 'Synced';
+	}
+}
+
+function statusColor(state: SyncState): string {
+	switch (state.status) {
+		case 'syncing':
+			return 'bg-blue-500';
+		case 'offline':
+			return 'bg-yellow-500';
+		case 'error':
+			return 'bg-red-500';
+		case 'idle':
+			return state.pendingCount > 0 ? 'bg-yellow-500' : 'bg-green-500';
+	}
+}
+
+function formatTime(timestamp: number | null | undefined): string {
+	if (!timestamp) return 'Never';
+	return new Date(timestamp).toLocaleString();
+}
+
+export function SyncStatus({ state, onRetry, onRetryFailed, onDiscardFailed, conflictPolicy, onChangeConflictPolicy }: SyncStatusProps) {
+	const [open, setOpen] = useState(false);
+
+	return (
+		<div className="relative">
+			<button
+				onClick={() => setOpen((v) => !v)}
+				className="flex items-center gap-2 rounded-md px-2 py-1 hover:bg-layer-03 transition-colors"
+				title="Sync details"
+			>
+				<div className={`w-2 h-2 rounded-full ${statusColor(state)}`}></div>
+				<span className="text-sm text-gray-300">{statusLabel(state)}</span>
+			</button>
+			{open && (
+				<div className="absolute right-0 top-full mt-2 z-40 w-72 bg-layer-02 rounded-lg border border-primary shadow-layer-2 p-4 text-sm">
+					<div className="space-y-2">
+						<div className="flex justify-between gap-4">
+							<span className="text-secondary">Status</span>
+							<span className="text-primary">{statusLabel(state)}</span>
+						</div>
+						<div className="flex justify-between gap-4">
+							<span className="text-secondary">Pending changes</span>
+							<span className="text-primary">{state.pendingCount}</span>
+						</div>
+						{state.failedCount > 0 && (
+							<div className="flex justify-between gap-4">
+								<span className="text-secondary">Not saved</span>
+								<span className="text-primary">{state.failedCount}</span>
+							</div>
+						)}
+						<div className="flex justify-between gap-4">
+							<span className="text-secondary">Last synced</span>
+							<span className="text-primary">{formatTime(state.lastSyncedAt)}</span>
+						</div>
+						{state.nextRetryAt && (
+							<div className="flex justify-between gap-4">
+								<span className="text-secondary">Next retry</span>
+								<span className="text-primary">{formatTime(state.nextRetryAt)}</span>
+							</div>
+						)}
+						{state.error && (
+							<div className="rounded-md px-2 py-1.5 text-xs" style={{ backgroundColor: 'var(--red-10)', color: 'var(--red-60)' }}>
+								{state.error}
+							</div>
+						)}
+						{conflictPolicy && onChangeConflictPolicy && (
+							<div>
+								<label className="block text-secondary mb-1">When edits conflict</label>
+								<select
+									value={conflictPolicy}
+									onChange={(e) => onChangeConflictPolicy(e.target.value as ConflictPolicy)}
+									className="w-full rounded-md px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-blue-60"
+									style={{
+										backgroundColor: 'var(--layer-03)',
+										border: '1px solid var(--border-tertiary)',
+										color: 'var(--text-primary)'
+									}}
+								>
+									<option value="last-writer-wins">Newest edit wins</option>
+									<option value="union-notes">Newest edit wins, merge notes and solutions</option>
+									<option value="ask">Ask me</option>
+								</select>
+							</div>
+						)}
+					</div>
+					<button
+						onClick={onRetry}
+						disabled={state.status === 'syncing' || state.pendingCount === 0}
+						className="mt-3 w-full inline-flex items-center justify-center gap-2 px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+					>
+						<RefreshCw size={14} /> Retry now
+					</button>
+					{state.failedCount > 0 && (
+						<div className="mt-2 flex gap-2">
+							<button
+								onClick={onRetryFailed}
+								disabled={state.status === 'syncing'}
+								className="flex-1 inline-flex items-center justify-center gap-2 px-3 py-1.5 text-xs bg-blue-600 hover:bg-blue-700 text-white rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+								title="Try sending the changes that could not be saved again"
+							>
+								<RefreshCw size={14} /> Retry unsaved
+							</button>
+							<button
+								onClick={onDiscardFailed}
+								className="flex-1 inline-flex items-center justify-center gap-2 px-3 py-1.5 text-xs rounded border border-primary text-primary hover:bg-layer-03 transition-colors"
+								title="Drop the changes that could not be saved and reload from the server"
+							>
+								<Trash2 size={14} /> Discard
+							</button>
+						</div>
+					)}
+				</div>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,62 @@
+import { ConflictPolicy, Solution, SyncConflict } from './types';
+
+export type ConflictChoice = 'mine' | 'theirs' | 'merge';
+
+export interface ConflictResolution {
+	// Fields to write back on top of the server's current version
+	mine: Record<string, unknown>;
+	// Values the local record should end up with
+	local: Record<string, unknown>;
+}
+
+// Union of two notes: keep one if it already contains the other, otherwise keep both
+export function mergeNotes(server: string, local: string): string {
+	if (server === local || server.includes(local)) return server;
+	if (local.includes(server)) return local;
+	return `${server}\n\n${local}`;
+}
+
+// Union of two snippet lists by id; where both have a snippet, our edit of it wins
+export function mergeSolutions(server: Solution[], local: Solution[]): Solution[] {
+	const serverIds = new Set(server.map((s) => s.id));
+	return [...server.map((s) => local.find((l) => l.id === s.id) ?? s), ...local.filter((l) => !serverIds.has(l.id))];
+}
+
+function buildResolution(conflict: SyncConflict, pick: (field: string, localValue: unknown, serverValue: unknown) => unknown): ConflictResolution {
+	const mine: Record<string, unknown> = {};
+	Object.entries(conflict.local).forEach(([field, localValue]) => {
+		const value = pick(field, localValue, conflict.server[field]);
+		if (value !== conflict.server[field]) mine[field] = value;
+	});
+	return { mine, local: { ...conflict.server, ...mine } };
+}
+
+// Per-field last-writer-wins: a local edit made after the server row was last written wins
+function lastWriterWins(conflict: SyncConflict, changedAt: number) {
+	const serverTime = Date.parse(conflict.serverVersion);
+	const localIsNewer = Number.isNaN(serverTime) || changedAt > serverTime;
+	return (_field: string, localValue: unknown, serverValue: unknown) => (localIsNewer ? localValue : serverValue);
+}
+
+export function resolveConflict(conflict: SyncConflict, choice: ConflictChoice, changedAt: number): ConflictResolution {
+	switch (choice) {
+		case 'mine':
+			return buildResolution(conflict, (_field, localValue) => localValue);
+		case 'theirs':
+			return buildResolution(conflict, (_field, _localValue, serverValue) => serverValue);
+		case 'merge': {
+			const lww = lastWriterWins(conflict, changedAt);
+			return buildResolution(conflict, (field, localValue, serverValue) => {
+				if (field === 'note') return mergeNotes(String(serverValue ?? ''), String(localValue ?? ''));
+				if (field === 'solutions') return mergeSolutions((serverValue ?? []) as Solution[], (localValue ?? []) as Solution[]);
+				return lww(field, localValue, serverValue);
+			});
+		}
+	}
+}
+
+// Automatic resolution for the non-interactive policies
+export function resolveWithPolicy(conflict: SyncConflict, policy: Exclude<ConflictPolicy, 'ask'>, changedAt: number): ConflictResolution {
+	if (policy === 'union-notes') return resolveConflict(conflict, 'merge', changedAt);
+	return buildResolution(conflict, lastWriterWins(conflict, changedAt));
+}
@@ -0,0 +1,80 @@
+import { Category, Problem, ProblemChanges, Solution } from './types';
+import { canonicalUrl } from './platforms';
+import { categoryPath } from './utils';
+import { STATUS_RANK } from './status';
+
+// The same problem added more than once, e.g. under two categories with links a
+// trailing slash or a /description/ apart. Problems are matched by canonical link.
+
+export interface DuplicateMatch {
+	categoryId: string;
+	// "Arrays › Easy"
+	path: string;
+	problem: Problem;
+	personal: boolean;
+}
+
+function matchesFor(categories: Category[], key: string, exceptProblemId?: string): DuplicateMatch[] {
+	return categories.flatMap((c) =>
+		c.problems
+			.filter((p) => p.id !== exceptProblemId && p.url.trim() && canonicalUrl(p.url) === key)
+			.map((problem) => ({ categoryId: c.id, path: categoryPath(categories, c.id), problem, personal: !!c.personal }))
+	);
+}
+
+// Problems already linking to the same place as url, other than the one being edited
+export function findDuplicates(categories: Category[], url: string, exceptProblemId?: string): DuplicateMatch[] {
+	if (!url.trim()) return [];
+	return matchesFor(categories, canonicalUrl(url), exceptProblemId);
+}
+
+// “Two Sum” in Arrays › Easy, for warnings
+export function describeDuplicates(matches: DuplicateMatch[]): string {
+	return matches.map((m) => `“${m.problem.title}” in ${m.path}${m.personal ? ' (personal)' : ''}`).join(', ');
+}
+
+// Every set of catalog problems sharing a link, in catalog order. Personal problems are
+// the user's own business and are left out.
+export function duplicateGroups(categories: Category[]): DuplicateMatch[][] {
+	const catalog = categories.filter((c) => !c.personal);
+	const groups = new Map<string, DuplicateMatch[]>();
+	catalog.forEach((c) =>
+		c.problems.forEach((problem) => {
+			if (!problem.url.trim()) return;
+			const key = canonicalUrl(problem.url);
+			const match = { categoryId: c.id, path: categoryPath(categories, c.id), problem, personal: false };
+			groups.set(key, [...(groups.get(key) ?? []), match]);
+		})
+	);
+	return [...groups.values()].filter((group) => group.length > 1);
+}
+
+// Separates notes joined by a merge
+export const MERGED_NOTE_SEPARATOR = '\n\n---\n\n';
+
+// One user's progress on the kept problem after folding in their progress on the copies
+// being merged away: the furthest status, the kept schedule (or the first copy's), both
+// notes, and every solution. The merge_problems function in database_setup.sql does the
+// same for every user on the server.
+export function mergeProgress(keep: Problem, others: Problem[]): ProblemChanges {
+	let status = keep.status;
+	let review = keep.review;
+	let note = keep.note ?? '';
+	const keptSolutions = keep.solutions ?? [];
+	let solutions: Solution[] = keptSolutions;
+	others.forEach((other) => {
+		if (STATUS_RANK[other.status] > STATUS_RANK[status]) status = other.status;
+		review = review ?? other.review;
+		const otherNote = other.note ?? '';
+		if (otherNote && otherNote !== note) note = note ? `${note}${MERGED_NOTE_SEPARATOR}${otherNote}` : otherNote;
+		const added = (other.solutions ?? []).filter((s) => !solutions.some((kept) => kept.id === s.id));
+		if (added.length > 0) solutions = [...solutions, ...added];
+	});
+
+	const changes: ProblemChanges = {};
+	if (status !== keep.status) changes.status = status;
+	if (review !== keep.review) changes.review = review;
+	if (note !== (keep.note ?? '')) changes.note = note;
+	if (solutions !== keptSolutions) changes.solutions = solutions;
+	return changes;
+}
@@ -0,0 +1,98 @@
+import { Category, ProblemChanges } from './types';
+import { GuestProgress, readGuestProgress, readSnapshotOwner } from './adapters/localSnapshot';
+import { mergeNotes } from './conflicts';
+import { STATUS_RANK, isProblemStatus, legacyStatus } from './status';
+
+// Carries progress a visitor made before signing in over to their account.
+// The guest data is stashed before sign-in (when the local snapshot is about to
+// be replaced by server data) and kept until it is merged or discarded.
+
+const PENDING_KEY = 'coding-platform-guest-progress';
+
+interface PendingGuestProgress {
+	entries: Record<string, GuestProgress>;
+	// When the guest last saved, compared with server versions
+	savedAt: number;
+}
+
+export interface GuestMergeItem {
+	categoryId: string;
+	problemId: string;
+	title: string;
+	changes: ProblemChanges;
+	baseVersion?: string;
+	baseProgressVersion?: string;
+}
+
+export async function captureGuestProgress(): Promise<void> {
+	const progress = await readGuestProgress();
+	if (progress.size === 0) return;
+	const pending: PendingGuestProgress = {
+		entries: Object.fromEntries(progress),
+		savedAt: (await readSnapshotOwner())?.savedAt ?? Date.now(),
+	};
+	try {
+		localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+	} catch (e) {
+		console.error('Failed to stash guest progress', e);
+	}
+}
+
+function readPending(): PendingGuestProgress | null {
+	try {
+		const raw = localStorage.getItem(PENDING_KEY);
+		if (!raw) return null;
+		const pending = JSON.parse(raw) as PendingGuestProgress;
+		// Entries stashed before statuses existed carry a completed flag instead
+		Object.values(pending.entries).forEach((entry: any) => {
+			if (!isProblemStatus(entry.status)) entry.status = legacyStatus(entry.completed);
+			delete entry.completed;
+		});
+		return pending;
+	} catch {
+		return null;
+	}
+}
+
+export function clearGuestProgress(): void {
+	localStorage.removeItem(PENDING_KEY);
+}
+
+// What merging would change in the signed-in user's data. Problems no longer in the
+// catalog are skipped, and server progress written after the guest's is left alone.
+export function buildGuestMergePreview(categories: Category[]): GuestMergeItem[] {
+	const pending = readPending();
+	if (!pending) return [];
+
+	const items: GuestMergeItem[] = [];
+	categories.forEach((c) =>
+		c.problems.forEach((p) => {
+			const guest = pending.entries[p.id];
+			if (!guest) return;
+			if (p.progressUpdatedAt && Date.parse(p.progressUpdatedAt) > pending.savedAt) return;
+
+			const changes: ProblemChanges = {};
+			// Only a status further along than the account's, so merging never undoes progress
+			if (STATUS_RANK[guest.status] > STATUS_RANK[p.status]) changes.status = guest.status;
+			if (guest.review && !p.review) changes.review = guest.review;
+			// Snippets have ids, so the guest's are added to any the account already has
+			const known = new Set((p.solutions ?? []).map((s) => s.id));
+			const added = (guest.solutions ?? []).filter((s) => !known.has(s.id));
+			if (added.length > 0) changes.solutions = [...(p.solutions ?? []), ...added];
+			if (guest.note) {
+				const note = p.note ? mergeNotes(p.note, guest.note) : guest.note;
+				if (note !== p.note) changes.note = note;
+			}
+			if (Object.keys(changes).length === 0) return;
+			items.push({
+				categoryId: c.id,
+				problemId: p.id,
+				title: p.title,
+				changes,
+				baseVersion: p.updatedAt,
+				baseProgressVersion: p.progressUpdatedAt,
+			});
+		})
+	);
+	return items;
+}
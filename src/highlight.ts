@@ -0,0 +1,180 @@
+// A small syntax highlighter for solution snippets. It only tells comments, strings,
+// numbers, keywords and type names apart, which is enough to make code readable
+// without shipping a full grammar for every language.
+
+export const SOLUTION_LANGUAGES = ['cpp', 'java', 'python', 'javascript', 'typescript', 'go', 'rust', 'kotlin', 'csharp', 'c', 'text'] as const;
+export type SolutionLanguage = (typeof SOLUTION_LANGUAGES)[number];
+
+export const LANGUAGE_LABELS: Record<SolutionLanguage, string> = {
+	cpp: 'C++',
+	java: 'Java',
+	python: 'Python',
+	javascript: 'JavaScript',
+	typescript: 'TypeScript',
+	go: 'Go',
+	rust: 'Rust',
+	kotlin: 'Kotlin',
+	csharp: 'C#',
+	c: 'C',
+	text: 'Plain text',
+};
+
+export function isSolutionLanguage(value: unknown): value is SolutionLanguage {
+	return typeof value === 'string' && (SOLUTION_LANGUAGES as readonly string[]).includes(value);
+}
+
+export type TokenKind = 'comment' | 'string' | 'number' | 'keyword' | 'type' | 'plain';
+
+export interface Token {
+	kind: TokenKind;
+	text: string;
+}
+
+export const TOKEN_COLORS: Record<Exclude<TokenKind, 'plain'>, string> = {
+	comment: 'var(--gray-60)',
+	string: 'var(--green-60)',
+	number: 'var(--yellow-60)',
+	keyword: 'var(--purple-60)',
+	type: 'var(--teal-60)',
+};
+
+interface Grammar {
+	keywords: string[];
+	// Built-in type names that are not capitalised
+	types?: string[];
+	// Prefixes that run to the end of the line (C's # directives show as comments)
+	lineComment: string[];
+	blockComment: boolean;
+	// Python's triple-quoted strings, Go's and JavaScript's backtick strings
+	tripleQuotes?: boolean;
+	backticks?: boolean;
+}
+
+const C_TYPES = ['int', 'long', 'short', 'char', 'float', 'double', 'bool', 'void', 'unsigned', 'signed', 'size_t', 'auto'];
+const C_KEYWORDS = ['if', 'else', 'for', 'while', 'do', 'return', 'break', 'continue', 'switch', 'case', 'default', 'struct', 'const', 'static', 'sizeof', 'typedef', 'enum', 'true', 'false', 'NULL'];
+const JS_KEYWORDS = [
+	'const', 'let', 'var', 'function', 'return', 'if', 'else', 'for', 'while', 'do', 'break', 'continue', 'switch', 'case', 'default',
+	'new', 'class', 'extends', 'this', 'of', 'in', 'typeof', 'instanceof', 'null', 'undefined', 'true', 'false', 'async', 'await',
+	'import', 'export', 'from', 'try', 'catch', 'finally', 'throw',
+];
+
+const GRAMMARS: Record<Exclude<SolutionLanguage, 'text'>, Grammar> = {
+	c: { keywords: C_KEYWORDS, types: C_TYPES, lineComment: ['//', '#'], blockComment: true },
+	cpp: {
+		keywords: [...C_KEYWORDS, 'class', 'public', 'private', 'protected', 'new', 'delete', 'this', 'nullptr', 'template', 'typename', 'namespace', 'using', 'std', 'vector', 'string', 'map', 'set', 'unordered_map', 'unordered_set', 'pair', 'queue', 'stack', 'priority_queue'],
+		types: C_TYPES,
+		lineComment: ['//', '#'],
+		blockComment: true,
+	},
+	java: {
+		keywords: ['class', 'interface', 'public', 'private', 'protected', 'static', 'final', 'new', 'return', 'if', 'else', 'for', 'while', 'do', 'break', 'continue', 'switch', 'case', 'default', 'this', 'null', 'true', 'false', 'import', 'package', 'extends', 'implements', 'try', 'catch', 'finally', 'throw', 'throws', 'var'],
+		types: ['int', 'long', 'short', 'byte', 'char', 'float', 'double', 'boolean', 'void'],
+		lineComment: ['//'],
+		blockComment: true,
+	},
+	python: {
+		keywords: ['def', 'class', 'return', 'if', 'elif', 'else', 'for', 'while', 'in', 'not', 'and', 'or', 'is', 'None', 'True', 'False', 'import', 'from', 'as', 'with', 'try', 'except', 'finally', 'raise', 'lambda', 'yield', 'pass', 'break', 'continue', 'global', 'nonlocal', 'self'],
+		types: ['int', 'str', 'float', 'bool', 'list', 'dict', 'set', 'tuple'],
+		lineComment: ['#'],
+		blockComment: false,
+		tripleQuotes: true,
+	},
+	javascript: { keywords: JS_KEYWORDS, lineComment: ['//'], blockComment: true, backticks: true },
+	typescript: {
+		keywords: [...JS_KEYWORDS, 'interface', 'type', 'enum', 'implements', 'public', 'private', 'readonly', 'as'],
+		types: ['number', 'string', 'boolean', 'void', 'any', 'unknown', 'never'],
+		lineComment: ['//'],
+		blockComment: true,
+		backticks: true,
+	},
+	go: {
+		keywords: ['func', 'return', 'if', 'else', 'for', 'range', 'break', 'continue', 'switch', 'case', 'default', 'var', 'const', 'type', 'struct', 'interface', 'map', 'chan', 'go', 'defer', 'package', 'import', 'nil', 'true', 'false', 'make', 'len', 'append'],
+		types: ['int', 'int64', 'int32', 'uint', 'float64', 'string', 'bool', 'byte', 'rune', 'error'],
+		lineComment: ['//'],
+		blockComment: true,
+		backticks: true,
+	},
+	rust: {
+		keywords: ['fn', 'let', 'mut', 'return', 'if', 'else', 'for', 'while', 'loop', 'in', 'match', 'break', 'continue', 'struct', 'enum', 'impl', 'trait', 'pub', 'use', 'mod', 'self', 'Self', 'as', 'ref', 'true', 'false', 'None', 'Some'],
+		types: ['i32', 'i64', 'u32', 'u64', 'usize', 'isize', 'f64', 'bool', 'char', 'str'],
+		lineComment: ['//'],
+		blockComment: true,
+	},
+	kotlin: {
+		keywords: ['fun', 'val', 'var', 'return', 'if', 'else', 'for', 'while', 'in', 'when', 'break', 'continue', 'class', 'object', 'null', 'true', 'false', 'import', 'package', 'private', 'public', 'override'],
+		lineComment: ['//'],
+		blockComment: true,
+	},
+	csharp: {
+		keywords: ['class', 'public', 'private', 'protected', 'static', 'new', 'return', 'if', 'else', 'for', 'foreach', 'in', 'while', 'do', 'break', 'continue', 'switch', 'case', 'default', 'this', 'null', 'true', 'false', 'using', 'namespace', 'var', 'readonly'],
+		types: ['int', 'long', 'char', 'float', 'double', 'bool', 'void', 'string'],
+		lineComment: ['//'],
+		blockComment: true,
+	},
+};
+
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// One regular expression per language, compiled on first use
+const patterns = new Map<SolutionLanguage, RegExp>();
+
+function patternFor(language: Exclude<SolutionLanguage, 'text'>): RegExp {
+	const cached = patterns.get(language);
+	if (cached) return cached;
+	const grammar = GRAMMARS[language];
+	const comments = [
+		...grammar.lineComment.map((prefix) => `${escapeRegExp(prefix)}[^\\n]*`),
+		...(grammar.blockComment ? ['/\\*[\\s\\S]*?(?:\\*/|$)'] : []),
+	];
+	const strings = [
+		...(grammar.tripleQuotes ? [`"""[\\s\\S]*?(?:"""|$)`, `'''[\\s\\S]*?(?:'''|$)`] : []),
+		`"(?:\\\\.|[^"\\\\\\n])*"?`,
+		`'(?:\\\\.|[^'\\\\\\n])*'?`,
+		...(grammar.backticks ? ['`(?:\\\\.|[^`\\\\])*`?'] : []),
+	];
+	const pattern = new RegExp(
+		[
+			`(?<comment>${comments.join('|')})`,
+			`(?<string>${strings.join('|')})`,
+			`(?<number>\\b(?:0[xX][\\da-fA-F]+|\\d[\\d_]*(?:\\.\\d+)?(?:[eE][+-]?\\d+)?)[a-zA-Z]*)`,
+			`(?<word>[A-Za-z_$][\\w$]*)`,
+		].join('|'),
+		'g'
+	);
+	patterns.set(language, pattern);
+	return pattern;
+}
+
+export function tokenize(code: string, language: SolutionLanguage): Token[] {
+	if (language === 'text') return [{ kind: 'plain', text: code }];
+	const grammar = GRAMMARS[language];
+	const keywords = new Set(grammar.keywords);
+	const types = new Set(grammar.types ?? []);
+	const tokens: Token[] = [];
+	let last = 0;
+
+	const push = (kind: TokenKind, text: string) => {
+		const previous = tokens[tokens.length - 1];
+		// Merge neighbouring plain text so the output stays small
+		if (kind === 'plain' && previous?.kind === 'plain') previous.text += text;
+		else tokens.push({ kind, text });
+	};
+
+	for (const match of code.matchAll(patternFor(language))) {
+		const index = match.index ?? 0;
+		if (index > last) push('plain', code.slice(last, index));
+		const groups = match.groups ?? {};
+		const text = match[0];
+		if (groups.comment !== undefined) push('comment', text);
+		else if (groups.string !== undefined) push('string', text);
+		else if (groups.number !== undefined) push('number', text);
+		else if (keywords.has(text)) push('keyword', text);
+		else if (types.has(text) || /^[A-Z][a-z]\w*$/.test(text)) push('type', text);
+		else push('plain', text);
+		last = index + text.length;
+	}
+	if (last < code.length) push('plain', code.slice(last));
+	return tokens;
+}
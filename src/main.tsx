@@ -1,6 +1,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { SessionProvider } from './session';
 import './index.css';
 
 const rootElement = document.getElementById('root');
@@ -11,6 +12,8 @@ if (!rootElement) {
 
 ReactDOM.createRoot(rootElement).render(
 	<React.StrictMode>
-		<App />
+		<SessionProvider>
+			<App />
+		</SessionProvider>
 	</React.StrictMode>
 ); 
\ No newline at end of file
@@ -0,0 +1,249 @@
+import { Award, BookOpen, Briefcase, ChefHat, Code, Globe, LucideIcon, Swords, Trophy } from 'lucide-react';
+
+// Every judge a problem can link to. Adding one here is enough for it to show up in the
+// pickers, get its badge and be recognised from pasted links.
+
+export const PLATFORMS = ['GFG', 'LeetCode', 'HackerRank', 'Codeforces', 'AtCoder', 'CodeChef', 'InterviewBit', 'Other'] as const;
+export type Platform = (typeof PLATFORMS)[number];
+
+export interface PlatformInfo {
+	id: Platform;
+	label: string;
+	icon: LucideIcon;
+	// Badge colours
+	background: string;
+	color: string;
+	border: string;
+	// Matched against a problem's link to tell which platform it is on
+	urlPatterns: RegExp[];
+	// The one address of the problem a link's path leads to (host and path, no scheme),
+	// or null when the path is not a problem page
+	canonicalize?: (path: string) => string | null;
+	// The problem a link's path names, for filling in a new problem, or null when the
+	// path is not a problem page
+	suggest?: (path: string) => ProblemSuggestion | null;
+}
+
+// What a problem's link alone says about it, without fetching the page
+export interface ProblemSuggestion {
+	title: string;
+	// Stable across the link's variants, e.g. leetcode:two-sum or codeforces:1A
+	externalId: string;
+}
+
+// Any subdomain of the given domain, e.g. practice.geeksforgeeks.org
+function hostPattern(domain: string): RegExp {
+	return new RegExp(`^https?://([\\w-]+\\.)*${domain.replace(/\./g, '\\.')}(?=[:/?#]|$)`, 'i');
+}
+
+// Problem pages named by a slug, whatever follows it (/description/, /1, /problem)
+function slugPath(path: string, pattern: RegExp, prefix: string): string | null {
+	const match = pattern.exec(path);
+	return match ? `${prefix}${match[1].toLowerCase()}` : null;
+}
+
+// Words left in lower case inside a title, as the judges write them
+const MINOR_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'by', 'for', 'from', 'in', 'into', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// "best-time-to-buy-and-sell-stock-ii" → "Best Time to Buy and Sell Stock II"
+export function titleFromSlug(slug: string): string {
+	return slug
+		.split(/[-_+\s]+/)
+		.filter(Boolean)
+		.map((word, i) => {
+			const lower = word.toLowerCase();
+			if (/^(i{1,3}|iv|vi{0,3}|ix)$/.test(lower)) return lower.toUpperCase();
+			if (i > 0 && MINOR_WORDS.has(lower)) return lower;
+			return lower.charAt(0).toUpperCase() + lower.slice(1);
+		})
+		.join(' ');
+}
+
+// A problem named by a slug in its link, titled after the slug
+function slugSuggestion(path: string, pattern: RegExp, prefix: string): ProblemSuggestion | null {
+	const match = pattern.exec(path);
+	if (!match) return null;
+	const slug = decodeURIComponent(match[1]).toLowerCase();
+	return { title: titleFromSlug(slug), externalId: `${prefix}:${slug}` };
+}
+
+export const PLATFORM_REGISTRY: Record<Platform, PlatformInfo> = {
+	GFG: {
+		id: 'GFG',
+		label: 'GfG',
+		icon: BookOpen,
+		background: '#2f8d46',
+		color: '#ffffff',
+		border: '#1e5f2e',
+		urlPatterns: [hostPattern('geeksforgeeks.org')],
+		canonicalize: (path) => slugPath(path, /\/problems\/([^/]+)/, 'geeksforgeeks.org/problems/'),
+		suggest: (path) => {
+			const suggestion = slugSuggestion(path, /\/problems\/([^/]+)/, 'gfg');
+			// Practice slugs end in a long number that is not part of the name
+			return suggestion && { ...suggestion, title: suggestion.title.replace(/ \d{6,}$/, '') };
+		},
+	},
+	LeetCode: {
+		id: 'LeetCode',
+		label: 'LeetCode',
+		icon: Code,
+		background: '#ffa116',
+		color: '#000000',
+		border: '#e68a00',
+		urlPatterns: [hostPattern('leetcode.com'), hostPattern('leetcode.cn')],
+		canonicalize: (path) => slugPath(path, /^\/problems\/([^/]+)/, 'leetcode.com/problems/'),
+		suggest: (path) => slugSuggestion(path, /^\/problems\/([^/]+)/, 'leetcode'),
+	},
+	HackerRank: {
+		id: 'HackerRank',
+		label: 'HackerRank',
+		icon: Award,
+		background: '#00ea64',
+		color: '#000000',
+		border: '#00c854',
+		urlPatterns: [hostPattern('hackerrank.com')],
+		canonicalize: (path) => slugPath(path, /\/challenges\/([^/]+)/, 'hackerrank.com/challenges/'),
+		suggest: (path) => slugSuggestion(path, /\/challenges\/([^/]+)/, 'hackerrank'),
+	},
+	Codeforces: {
+		id: 'Codeforces',
+		label: 'Codeforces',
+		icon: Trophy,
+		background: '#1f8ac0',
+		color: '#ffffff',
+		border: '#1569a0',
+		urlPatterns: [hostPattern('codeforces.com'), hostPattern('codeforces.ru')],
+		canonicalize: (path) => {
+			const match = /^\/(?:problemset\/problem|contest)\/(\d+)\/(?:problem\/)?([A-Za-z]\d*)/.exec(path);
+			return match ? `codeforces.com/problemset/problem/${match[1]}/${match[2].toUpperCase()}` : null;
+		},
+		// Problems are known by contest and index; their names are not in the link
+		suggest: (path) => {
+			const match = /^\/(?:problemset\/problem|contest)\/(\d+)\/(?:problem\/)?([A-Za-z]\d*)/.exec(path);
+			if (!match) return null;
+			const id = `${match[1]}${match[2].toUpperCase()}`;
+			return { title: `Codeforces ${id}`, externalId: `codeforces:${id}` };
+		},
+	},
+	AtCoder: {
+		id: 'AtCoder',
+		label: 'AtCoder',
+		icon: Swords,
+		background: '#222222',
+		color: '#ffffff',
+		border: '#000000',
+		urlPatterns: [hostPattern('atcoder.jp')],
+		canonicalize: (path) => {
+			const match = /^\/contests\/([^/]+)\/tasks\/([^/]+)/.exec(path);
+			return match ? `atcoder.jp/contests/${match[1].toLowerCase()}/tasks/${match[2].toLowerCase()}` : null;
+		},
+		// Tasks such as abc123_a, titled "ABC123 A"
+		suggest: (path) => {
+			const match = /^\/contests\/[^/]+\/tasks\/([^/]+)/.exec(path);
+			if (!match) return null;
+			const task = match[1].toLowerCase();
+			return { title: task.toUpperCase().replace(/_/g, ' '), externalId: `atcoder:${task}` };
+		},
+	},
+	CodeChef: {
+		id: 'CodeChef',
+		label: 'CodeChef',
+		icon: ChefHat,
+		background: '#5b4638',
+		color: '#ffffff',
+		border: '#3f3027',
+		urlPatterns: [hostPattern('codechef.com')],
+		canonicalize: (path) => {
+			const match = /\/problems\/([^/]+)/.exec(path);
+			return match ? `codechef.com/problems/${match[1].toUpperCase()}` : null;
+		},
+		// Problem codes such as FLOW001 are their own title
+		suggest: (path) => {
+			const match = /\/problems\/([^/]+)/.exec(path);
+			if (!match) return null;
+			const code = match[1].toUpperCase();
+			return { title: code, externalId: `codechef:${code}` };
+		},
+	},
+	InterviewBit: {
+		id: 'InterviewBit',
+		label: 'InterviewBit',
+		icon: Briefcase,
+		background: '#1b75bb',
+		color: '#ffffff',
+		border: '#145a90',
+		urlPatterns: [hostPattern('interviewbit.com')],
+		canonicalize: (path) => slugPath(path, /^\/problems\/([^/]+)/, 'interviewbit.com/problems/'),
+		suggest: (path) => slugSuggestion(path, /^\/problems\/([^/]+)/, 'interviewbit'),
+	},
+	Other: {
+		id: 'Other',
+		label: 'Other',
+		icon: Globe,
+		background: 'var(--layer-03)',
+		color: 'var(--text-secondary)',
+		border: 'var(--border-tertiary)',
+		urlPatterns: [],
+	},
+};
+
+export function isPlatform(value: unknown): value is Platform {
+	return typeof value === 'string' && (PLATFORMS as readonly string[]).includes(value);
+}
+
+// Rows written by other clients may name a platform this build does not know yet
+export function platformInfo(platform: string): PlatformInfo {
+	return isPlatform(platform) ? PLATFORM_REGISTRY[platform] : PLATFORM_REGISTRY.Other;
+}
+
+export function platformLabel(platform: string): string {
+	return platformInfo(platform).label;
+}
+
+// A link typed without a scheme is read as https
+function withScheme(url: string): string {
+	const trimmed = url.trim();
+	return /^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+}
+
+// The platform a link points at, or null when it is not one we know
+export function detectPlatform(url: string): Platform | null {
+	if (!url.trim()) return null;
+	const link = withScheme(url);
+	return PLATFORMS.find((p) => PLATFORM_REGISTRY[p].urlPatterns.some((pattern) => pattern.test(link))) ?? null;
+}
+
+// The form of a link used to tell whether two problems are the same one: https, no
+// www., no query, fragment or trailing slash, and on a known platform only the part
+// of the path that names the problem. A link that does not parse is compared as typed.
+export function canonicalUrl(url: string): string {
+	let parsed: URL;
+	try {
+		parsed = new URL(withScheme(url));
+	} catch {
+		return url.trim();
+	}
+	const path = parsed.pathname.replace(/\/+$/, '');
+	const platform = detectPlatform(url);
+	const canonical = platform ? PLATFORM_REGISTRY[platform].canonicalize?.(path) : null;
+	return `https://${canonical ?? `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${path}`}`;
+}
+
+// A title and external id read from a problem's link, or null when the link is not a
+// problem page on a known platform. Works offline: nothing is fetched.
+export function suggestFromUrl(url: string): ProblemSuggestion | null {
+	const platform = detectPlatform(url);
+	if (!platform) return null;
+	let parsed: URL;
+	try {
+		parsed = new URL(withScheme(url));
+	} catch {
+		return null;
+	}
+	try {
+		return PLATFORM_REGISTRY[platform].suggest?.(parsed.pathname.replace(/\/+$/, '')) ?? null;
+	} catch {
+		// A malformed escape in the slug
+		return null;
+	}
+}
@@ -0,0 +1,86 @@
+import { Category, Problem, RemoteChange } from './types';
+import { subtreeIds } from './utils';
+
+function updateProblemEverywhere(categories: Category[], problemId: string, update: (p: Problem) => Problem): Category[] {
+	return categories.map((c) =>
+		c.problems.some((p) => p.id === problemId)
+			? { ...c, problems: c.problems.map((p) => (p.id === problemId ? update(p) : p)) }
+			: c
+	);
+}
+
+// Apply a single pushed row change to the in-memory catalog
+export function applyRemoteChange(categories: Category[], change: RemoteChange): Category[] {
+	switch (change.type) {
+		case 'snapshot':
+			// Nothing new (such as another tab's copy of what this one saved): keep the same
+			// state, so it is not saved and announced again
+			return JSON.stringify(change.categories) === JSON.stringify(categories) ? categories : change.categories;
+		case 'categoryUpsert': {
+			const { id, title, orderIndex, parentId = null, personal = false, updatedAt } = change.category;
+			const existing = categories.find((c) => c.id === id);
+			const rest = categories.filter((c) => c.id !== id);
+			const next: Category = existing
+				? { ...existing, title, parentId, updatedAt }
+				: { id, title, parentId, ...(personal ? { personal } : {}), updatedAt, problems: [] };
+			// Personal categories are ordered among themselves, apart from the catalog's
+			const sameKind = rest.filter((c) => !!c.personal === personal);
+			const anchor = sameKind[Math.max(0, orderIndex)];
+			const position = anchor ? rest.indexOf(anchor) : sameKind.length > 0 ? rest.indexOf(sameKind[sameKind.length - 1]) + 1 : rest.length;
+			return [...rest.slice(0, position), next, ...rest.slice(position)];
+		}
+		case 'categoryDelete': {
+			// The database removes sub-categories too; do not wait for their own events
+			const removed = new Set(subtreeIds(categories, change.categoryId));
+			return categories.filter((c) => !removed.has(c.id));
+		}
+		case 'problemUpsert': {
+			const incoming = change.problem;
+			const existing = categories.flatMap((c) => c.problems).find((p) => p.id === incoming.id);
+			// Catalog rows carry no progress; keep what we have, which progress changes update
+			const merged: Problem = change.personal
+				? { ...existing, ...incoming }
+				: existing
+				? { ...existing, ...incoming, status: existing.status, note: existing.note, review: existing.review, solutions: existing.solutions }
+				: { ...incoming, status: 'todo', note: '' };
+			// Drop it wherever it was and put it in its (possibly new) category, at its position if known
+			return categories.map((c) => {
+				const without = c.problems.filter((p) => p.id !== incoming.id);
+				if (c.id !== change.categoryId) {
+					return without.length === c.problems.length ? c : { ...c, problems: without };
+				}
+				if (change.orderIndex !== undefined) {
+					const position = Math.max(0, Math.min(change.orderIndex, without.length));
+					return { ...c, problems: [...without.slice(0, position), merged, ...without.slice(position)] };
+				}
+				const index = c.problems.findIndex((p) => p.id === incoming.id);
+				if (index === -1) return { ...c, problems: [...without, merged] };
+				return { ...c, problems: c.problems.map((p) => (p.id === incoming.id ? merged : p)) };
+			});
+		}
+		case 'problemDelete':
+			return categories.map((c) =>
+				c.problems.some((p) => p.id === change.problemId)
+					? { ...c, problems: c.problems.filter((p) => p.id !== change.problemId) }
+					: c
+			);
+		case 'progressUpsert':
+			return updateProblemEverywhere(categories, change.problemId, (p) => ({
+				...p,
+				status: change.status,
+				note: change.note,
+				review: change.review,
+				solutions: change.solutions,
+				progressUpdatedAt: change.updatedAt,
+			}));
+		case 'progressDelete':
+			return updateProblemEverywhere(categories, change.problemId, (p) => ({
+				...p,
+				status: 'todo',
+				note: '',
+				review: null,
+				solutions: [],
+				progressUpdatedAt: undefined,
+			}));
+	}
+}
@@ -0,0 +1,71 @@
+import { Problem, ProblemStatus, ReviewSchedule } from './types';
+
+// SM-2 spaced repetition. After each review the user rates how well they recalled the
+// solution (0-5); a good recall pushes the next review further out and makes the
+// problem "easier", a poor one starts it over at one day.
+
+export type RecallRating = 'again' | 'hard' | 'good' | 'easy';
+
+export const RECALL_QUALITY: Record<RecallRating, number> = { again: 1, hard: 3, good: 4, easy: 5 };
+
+export const RECALL_LABELS: Record<RecallRating, string> = {
+	again: 'Forgot',
+	hard: 'Hard',
+	good: 'Good',
+	easy: 'Easy',
+};
+
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Solving a problem is its first review; needing a hint counts as a weaker recall
+const SOLVED_QUALITY: Partial<Record<ProblemStatus, number>> = { solved: 4, 'solved-with-hint': 3 };
+
+// Local calendar date as YYYY-MM-DD, which sorts and compares as a string
+export function dateKey(date: Date): string {
+	const pad = (n: number) => String(n).padStart(2, '0');
+	return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function addDays(date: Date, days: number): Date {
+	const next = new Date(date);
+	next.setDate(next.getDate() + days);
+	return next;
+}
+
+export function scheduleReview(previous: ReviewSchedule | null | undefined, quality: number, now = new Date()): ReviewSchedule {
+	const ease = previous?.ease ?? INITIAL_EASE;
+	const repetitions = previous?.repetitions ?? 0;
+	const nextEase = Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+	let intervalDays: number;
+	let nextRepetitions: number;
+	if (quality < 3) {
+		intervalDays = 1;
+		nextRepetitions = 0;
+	} else {
+		intervalDays = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round((previous?.intervalDays ?? 1) * nextEase);
+		nextRepetitions = repetitions + 1;
+	}
+
+	return {
+		due: dateKey(addDays(now, intervalDays)),
+		intervalDays,
+		ease: Math.round(nextEase * 100) / 100,
+		repetitions: nextRepetitions,
+		lastReviewedAt: now.toISOString(),
+	};
+}
+
+// The schedule a problem should have after its status changes: solving it for the
+// first time starts one, resetting it to Todo drops it, anything else leaves it be
+export function reviewAfterStatusChange(problem: Problem, status: ProblemStatus, now = new Date()): ReviewSchedule | null | undefined {
+	if (status === 'todo') return null;
+	const quality = SOLVED_QUALITY[status];
+	if (quality !== undefined && !problem.review) return scheduleReview(null, quality, now);
+	return problem.review;
+}
+
+export function isDueForReview(problem: Problem, today = dateKey(new Date())): boolean {
+	return !!problem.review && problem.review.due <= today;
+}
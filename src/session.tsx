@@ -0,0 +1,64 @@
+import { createContext, ReactNode, useContext, useEffect, useMemo, useState } from 'react';
+import { SessionState, getSession, onSessionChange } from './storage';
+import { Category } from './types';
+
+// One place for "who is signed in and what may they do". The storage layer loads the
+// session once per auth change; components read it from here instead of re-querying.
+
+export interface Permissions {
+	// Create, edit and reorder categories, and create, edit and delete problems
+	canEditCatalog: boolean;
+	// Deleting a category removes all of its problems, so only owners may
+	canDeleteCategories: boolean;
+	// Check off problems and write notes (guests keep theirs in this browser)
+	canTrackProgress: boolean;
+	// Change the current sheet's title, description and visibility
+	canEditSheet: boolean;
+	// Create new sheets (admins only)
+	canCreateSheets: boolean;
+	// Subscribe to sheets, which needs an account to remember them
+	canSubscribe: boolean;
+	// Keep private categories and problems of their own, which also needs an account
+	canAddPersonal: boolean;
+}
+
+export function permissionsFor(session: SessionState): Permissions {
+	return {
+		canEditCatalog: session.ready && (session.role === 'owner' || session.role === 'editor'),
+		canDeleteCategories: session.ready && session.role === 'owner',
+		canTrackProgress: true,
+		canEditSheet: session.ready && session.role === 'owner',
+		canCreateSheets: session.ready && session.isAdmin,
+		canSubscribe: session.ready && session.user !== null,
+		canAddPersonal: session.ready && session.user !== null,
+	};
+}
+
+// A personal category and its problems are always their owner's to change and delete
+export function categoryPermissions(permissions: Permissions, category: Pick<Category, 'personal'>): Permissions {
+	if (!category.personal) return permissions;
+	return { ...permissions, canEditCatalog: true, canDeleteCategories: true };
+}
+
+const SessionContext = createContext<SessionState>(getSession());
+
+export function SessionProvider({ children }: { children: ReactNode }) {
+	const [session, setSession] = useState<SessionState>(getSession());
+
+	useEffect(() => {
+		// The session may have loaded between the first render and subscribing
+		setSession(getSession());
+		return onSessionChange(setSession);
+	}, []);
+
+	return <SessionContext.Provider value={session}>{children}</SessionContext.Provider>;
+}
+
+export function useSession(): SessionState {
+	return useContext(SessionContext);
+}
+
+export function usePermissions(): Permissions {
+	const session = useSession();
+	return useMemo(() => permissionsFor(session), [session]);
+}
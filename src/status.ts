@@ -0,0 +1,56 @@
+import { Problem, ProblemStatus } from './types';
+
+export const PROBLEM_STATUSES: ProblemStatus[] = ['todo', 'attempted', 'solved', 'solved-with-hint', 'needs-revisit'];
+
+export const STATUS_LABELS: Record<ProblemStatus, string> = {
+	todo: 'Todo',
+	attempted: 'Attempted',
+	solved: 'Solved',
+	'solved-with-hint': 'Solved with hint',
+	'needs-revisit': 'Needs revisit',
+};
+
+export const STATUS_COLORS: Record<ProblemStatus, string> = {
+	todo: '#8d8d8d',
+	attempted: '#ff9800',
+	solved: '#0dbd8b',
+	'solved-with-hint': '#1f8ac0',
+	'needs-revisit': '#ff1744',
+};
+
+// How far along a status is, so merging keeps the better of two. Mirrors
+// problem_status_rank in database_setup.sql.
+export const STATUS_RANK: Record<ProblemStatus, number> = { todo: 0, attempted: 1, 'needs-revisit': 2, 'solved-with-hint': 3, solved: 4 };
+
+const COUNTED_STATUSES_KEY = 'coding-platform-counted-statuses';
+const DEFAULT_COUNTED_STATUSES: ProblemStatus[] = ['solved', 'solved-with-hint'];
+
+export function isProblemStatus(value: unknown): value is ProblemStatus {
+	return PROBLEM_STATUSES.includes(value as ProblemStatus);
+}
+
+// Data written before statuses existed only has the completed flag
+export function legacyStatus(completed: unknown): ProblemStatus {
+	return completed ? 'solved' : 'todo';
+}
+
+// Which statuses the progress bars count as done
+export function getCountedStatuses(): ProblemStatus[] {
+	try {
+		const stored = JSON.parse(localStorage.getItem(COUNTED_STATUSES_KEY) ?? 'null');
+		if (Array.isArray(stored)) return PROBLEM_STATUSES.filter((s) => stored.includes(s));
+	} catch {}
+	return DEFAULT_COUNTED_STATUSES;
+}
+
+export function setCountedStatuses(statuses: ProblemStatus[]): void {
+	try {
+		localStorage.setItem(COUNTED_STATUSES_KEY, JSON.stringify(statuses));
+	} catch (e) {
+		console.error('Failed to save counted statuses', e);
+	}
+}
+
+export function isDone(problem: Problem, counted: ProblemStatus[]): boolean {
+	return counted.includes(problem.status);
+}
@@ -0,0 +1,537 @@
+import { ApplyResult, Category, ConflictPolicy, Operation, Problem, ProblemChanges, QueuedOperation, SyncConflict } from './types';
+import { SyncContext, applyOperation, getSession, getSyncContext, onSessionChange, updateSyncState } from './storage';
+import { ConflictChoice, ConflictResolution, resolveConflict, resolveWithPolicy } from './conflicts';
+import { isProblemStatus, legacyStatus } from './status';
+import { PROGRESS_FIELDS, generateId, subtreeIds } from './utils';
+
+// Offline-first mutation queue: every change the app makes is recorded as an
+// operation, persisted locally, and replayed against Supabase in order.
+
+const QUEUE_KEY = 'coding-platform-ops-v1';
+const FAILED_KEY = 'coding-platform-ops-failed-v1';
+const CONFLICT_POLICY_KEY = 'coding-platform-conflict-policy';
+const FLUSH_DEBOUNCE_MS = 100;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60000;
+const MAX_ATTEMPTS = 6;
+
+let queue: QueuedOperation[] = readQueue(QUEUE_KEY);
+// Operations that used up their attempts, kept aside so they neither block the
+// queue nor get lost
+let failed: QueuedOperation[] = readQueue(FAILED_KEY);
+updateSyncState({ pendingCount: queue.length, failedCount: failed.length, ...failedState() });
+let inFlightId: string | null = null;
+let flushing: Promise<void> | null = null;
+let flushTimeout: ReturnType<typeof setTimeout> | null = null;
+// Conflict waiting for the user to decide (policy 'ask'); the queue is paused behind it
+let pendingConflict: { entryId: string; conflict: SyncConflict } | null = null;
+
+// Server-side values a local record should adopt (new versions, or the outcome of a conflict)
+export interface LocalPatch {
+	categoryId: string;
+	problemId?: string;
+	changes: Partial<Category> | Partial<Problem>;
+}
+
+const patchListeners = new Set<(patch: LocalPatch) => void>();
+const conflictListeners = new Set<(conflict: SyncConflict | null) => void>();
+
+export function onLocalPatch(cb: (patch: LocalPatch) => void): () => void {
+	patchListeners.add(cb);
+	return () => patchListeners.delete(cb);
+}
+
+export function onPendingConflictChange(cb: (conflict: SyncConflict | null) => void): () => void {
+	conflictListeners.add(cb);
+	return () => conflictListeners.delete(cb);
+}
+
+function emitPatch(patch: LocalPatch): void {
+	patchListeners.forEach((cb) => cb(patch));
+}
+
+function setPendingConflict(next: typeof pendingConflict): void {
+	pendingConflict = next;
+	conflictListeners.forEach((cb) => cb(next?.conflict ?? null));
+}
+
+export function getConflictPolicy(): ConflictPolicy {
+	try {
+		const stored = localStorage.getItem(CONFLICT_POLICY_KEY);
+		if (stored === 'last-writer-wins' || stored === 'union-notes' || stored === 'ask') return stored;
+	} catch {}
+	return 'last-writer-wins';
+}
+
+export function setConflictPolicy(policy: ConflictPolicy): void {
+	try {
+		localStorage.setItem(CONFLICT_POLICY_KEY, policy);
+	} catch (e) {
+		console.error('Failed to save conflict policy', e);
+	}
+}
+
+// Operations queued before statuses existed set a completed flag
+function upgradeQueuedOperation(entry: QueuedOperation): QueuedOperation {
+	const op = entry.op;
+	if (op.type === 'updateProblem' && 'completed' in op.changes) {
+		const { completed, ...changes } = op.changes as ProblemChanges & { completed?: boolean };
+		return { ...entry, op: { ...op, changes: { ...changes, status: legacyStatus(completed) } } };
+	}
+	if (op.type === 'addProblem' && !isProblemStatus(op.problem.status)) {
+		const { completed, ...problem } = op.problem as Problem & { completed?: boolean };
+		return { ...entry, op: { ...op, problem: { ...problem, status: legacyStatus(completed) } } };
+	}
+	return entry;
+}
+
+function readQueue(key: string): QueuedOperation[] {
+	try {
+		const raw = localStorage.getItem(key);
+		return raw ? (JSON.parse(raw) as QueuedOperation[]).map(upgradeQueuedOperation) : [];
+	} catch (e) {
+		console.error('Failed to read operation queue', e);
+		return [];
+	}
+}
+
+function persistQueue(): void {
+	try {
+		localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+		localStorage.setItem(FAILED_KEY, JSON.stringify(failed));
+	} catch (e) {
+		console.error('Failed to persist operation queue', e);
+	}
+	updateSyncState({ pendingCount: queue.length, failedCount: failed.length });
+}
+
+function failedState(): { status: 'error'; error: string } | null {
+	if (failed.length === 0) return null;
+	const count = failed.length === 1 ? '1 change' : `${failed.length} changes`;
+	return { status: 'error', error: `${count} could not be saved: ${failed[failed.length - 1].error}` };
+}
+
+// Move the head of the queue aside so the operations behind it can go through
+function park(entry: QueuedOperation, error: string): void {
+	queue.shift();
+	failed.push({ ...entry, error });
+	persistQueue();
+}
+
+function errorMessage(e: unknown): string {
+	if (e instanceof Error) return e.message;
+	if (e && typeof e === 'object' && 'message' in e) return String((e as { message: unknown }).message);
+	return String(e);
+}
+
+function isOffline(): boolean {
+	return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+// Operations made on the catalog being shown; those made on another sheet still sync, but to that sheet
+function currentEntries(): QueuedOperation[] {
+	const catalogId = getSession().catalogId;
+	return [...failed, ...queue].filter((entry) => entry.catalogId === undefined || entry.catalogId === catalogId);
+}
+
+export function getPendingOperations(): Operation[] {
+	return currentEntries().map((entry) => entry.op);
+}
+
+// Fold a new operation into the last queued one when they touch the same problem,
+// so a burst of edits (e.g. typing a note) is sent as a single write.
+function coalesce(last: QueuedOperation | undefined, op: Operation, catalogId: string | null): boolean {
+	if (!last || last.id === inFlightId || op.type !== 'updateProblem' || last.catalogId !== catalogId) return false;
+	const prev = last.op;
+	if (prev.type === 'updateProblem' && prev.problemId === op.problemId) {
+		last.op = { ...prev, changes: { ...prev.changes, ...op.changes } };
+		last.changedAt = Date.now();
+		return true;
+	}
+	if (prev.type === 'addProblem' && prev.problem.id === op.problemId) {
+		last.op = { ...prev, problem: { ...prev.problem, ...op.changes } };
+		last.changedAt = Date.now();
+		return true;
+	}
+	return false;
+}
+
+export function enqueueOperation(op: Operation): void {
+	const { user, catalogId } = getSession();
+	if (!coalesce(queue[queue.length - 1], op, catalogId)) {
+		const now = Date.now();
+		queue.push({ id: generateId('op'), op, queuedAt: now, changedAt: now, attempts: 0, catalogId, ...(user ? { userId: user.id } : {}) });
+	}
+	persistQueue();
+	scheduleFlush(FLUSH_DEBOUNCE_MS);
+}
+
+function scheduleFlush(delay: number): void {
+	if (flushTimeout) clearTimeout(flushTimeout);
+	updateSyncState({ nextRetryAt: delay > FLUSH_DEBOUNCE_MS ? Date.now() + delay : undefined });
+	flushTimeout = setTimeout(() => {
+		flushTimeout = null;
+		flushOperations();
+	}, delay);
+}
+
+export function flushOperations(): Promise<void> {
+	if (!flushing) {
+		flushing = runFlush().finally(() => {
+			flushing = null;
+		});
+	}
+	return flushing;
+}
+
+// Skip the backoff wait and try again immediately
+export function retryNow(): Promise<void> {
+	if (flushTimeout) {
+		clearTimeout(flushTimeout);
+		flushTimeout = null;
+	}
+	return flushOperations();
+}
+
+// Put parked operations back at the front of the queue and give them a fresh set of attempts
+export async function retryFailed(): Promise<void> {
+	// The flush loop works on the head of the queue, so wait until it is idle
+	await flushing;
+	if (failed.length === 0) return;
+	queue = [...failed.map(({ error, ...entry }) => ({ ...entry, attempts: 0 })), ...queue];
+	failed = [];
+	persistQueue();
+	updateSyncState({ error: undefined });
+	return retryNow();
+}
+
+// Give up on parked operations; the caller reloads so the local data drops them too
+export function discardFailed(): void {
+	if (failed.length === 0) return;
+	failed = [];
+	persistQueue();
+	updateSyncState(queue.length > 0 ? { error: undefined } : { status: 'idle', error: undefined });
+}
+
+async function runFlush(): Promise<void> {
+	if (queue.length === 0 || pendingConflict) return;
+	if (isOffline()) {
+		// The 'online' listener picks this up again
+		updateSyncState({ status: 'offline', nextRetryAt: undefined });
+		return;
+	}
+
+	updateSyncState({ status: 'syncing', nextRetryAt: undefined });
+	let ctx;
+	try {
+		ctx = await getSyncContext();
+	} catch (e) {
+		console.error('Failed to resolve sync context:', e);
+		updateSyncState({ status: isOffline() ? 'offline' : 'error', error: errorMessage(e) });
+		scheduleFlush(BASE_RETRY_DELAY_MS);
+		return;
+	}
+
+	if (!ctx) {
+		// Changes made without signing in only live in the local snapshot, but
+		// changes made while signed in wait for that account to sign in again
+		const held = queue.filter((entry) => entry.userId);
+		if (held.length < queue.length) {
+			console.log('No authenticated session, dropping queued guest operations');
+			queue = held;
+			persistQueue();
+		}
+		updateSyncState(
+			held.length > 0
+				? { status: 'error', error: 'Your session has ended. Sign in again to save your changes.' }
+				: (failedState() ?? { status: 'idle', error: undefined })
+		);
+		return;
+	}
+
+	// The user's role can differ between the sheets operations were made on
+	const contexts = new Map<string | null | undefined, Promise<SyncContext | null>>([
+		[undefined, Promise.resolve(ctx)],
+		[ctx.catalogId, Promise.resolve(ctx)],
+	]);
+	const contextFor = async (catalogId: string | null | undefined): Promise<SyncContext> => {
+		if (!contexts.has(catalogId)) contexts.set(catalogId, getSyncContext(catalogId));
+		const found = await contexts.get(catalogId)!;
+		if (!found) throw new Error('The session ended while syncing');
+		return found;
+	};
+
+	while (queue.length > 0) {
+		splitMixedEdit();
+		const entry = queue[0];
+		if (entry.userId && entry.userId !== ctx.userId) {
+			park(entry, 'It was made while signed in to a different account');
+			continue;
+		}
+		inFlightId = entry.id;
+		let result: ApplyResult;
+		try {
+			result = await applyOperation(entry.op, await contextFor(entry.catalogId));
+		} catch (e) {
+			entry.attempts += 1;
+			console.error(`Failed to sync ${entry.op.type} (attempt ${entry.attempts}/${MAX_ATTEMPTS}):`, e);
+			if (entry.attempts >= MAX_ATTEMPTS) {
+				// Park this one so it cannot block everything queued behind it
+				park(entry, errorMessage(e));
+				continue;
+			}
+			persistQueue();
+			updateSyncState({ status: isOffline() ? 'offline' : 'error', error: errorMessage(e) });
+			const delay = Math.min(BASE_RETRY_DELAY_MS * Math.pow(2, entry.attempts - 1), MAX_RETRY_DELAY_MS);
+			console.log(`Retrying sync in ${delay}ms`);
+			scheduleFlush(delay);
+			return;
+		} finally {
+			inFlightId = null;
+		}
+
+		result.versions.forEach((v) => {
+			rebaseQueued(v.categoryId, v.problemId, v.field, v.version);
+			emitPatch({ categoryId: v.categoryId, problemId: v.problemId, changes: { [v.field]: v.version } });
+		});
+
+		if (!result.conflict) {
+			queue.shift();
+			persistQueue();
+			continue;
+		}
+
+		const policy = getConflictPolicy();
+		if (policy === 'ask') {
+			console.warn('Sync conflict needs a decision:', result.conflict);
+			setPendingConflict({ entryId: entry.id, conflict: result.conflict });
+			updateSyncState({ status: 'error', error: 'An edit conflicts with a change from another device' });
+			return;
+		}
+		applyResolution(entry, result.conflict, resolveWithPolicy(result.conflict, policy, entry.changedAt));
+	}
+
+	updateSyncState({ ...(failedState() ?? { status: 'idle', error: undefined }), lastSyncedAt: Date.now() });
+}
+
+// A problem edit that changes both the user's progress and the catalog is written in
+// two steps. Queue the catalog half as an operation of its own, so that if it fails the
+// retry does not send progress that already went through.
+function splitMixedEdit(): void {
+	const head = queue[0];
+	const op = head.op;
+	if (op.type !== 'updateProblem' || op.personal) return;
+	const isProgress = (field: string) => (PROGRESS_FIELDS as string[]).includes(field);
+	const entries = Object.entries(op.changes);
+	const progress = entries.filter(([field]) => isProgress(field));
+	if (progress.length === 0 || progress.length === entries.length) return;
+	const catalog = entries.filter(([field]) => !isProgress(field));
+	queue.splice(
+		0,
+		1,
+		{ ...head, op: { ...op, changes: Object.fromEntries(progress) } },
+		{ ...head, id: generateId('op'), op: { ...op, changes: Object.fromEntries(catalog) } }
+	);
+	persistQueue();
+}
+
+// Later operations on a record were made on top of our own earlier writes, so
+// they should expect the version those writes produced.
+function rebaseQueued(categoryId: string, problemId: string | undefined, field: 'updatedAt' | 'progressUpdatedAt', version: string): void {
+	queue.forEach((entry) => {
+		const op = entry.op;
+		if (problemId && op.type === 'updateProblem' && op.problemId === problemId) {
+			entry.op = field === 'updatedAt' ? { ...op, baseVersion: version } : { ...op, baseProgressVersion: version };
+		} else if (!problemId && op.type === 'updateCategory' && op.categoryId === categoryId) {
+			entry.op = { ...op, baseVersion: version };
+		}
+	});
+}
+
+// Replace the head operation with the resolved write (or drop it when the server
+// already holds the result) and bring the local record in line with the outcome.
+function applyResolution(entry: QueuedOperation, conflict: SyncConflict, resolution: ConflictResolution): void {
+	const versionField = conflict.kind === 'progress' ? 'progressUpdatedAt' : 'updatedAt';
+	rebaseQueued(conflict.categoryId, conflict.problemId, versionField, conflict.serverVersion);
+	emitPatch({
+		categoryId: conflict.categoryId,
+		problemId: conflict.problemId,
+		changes: { ...resolution.local, [versionField]: conflict.serverVersion },
+	});
+
+	const op = queue[0]?.id === entry.id ? queue[0].op : null;
+	// Fields outside the conflict (the catalog half of an edit whose progress conflicted) still need writing
+	const untouched =
+		op && (op.type === 'updateProblem' || op.type === 'updateCategory')
+			? Object.fromEntries(Object.entries(op.changes).filter(([field]) => !(field in conflict.local)))
+			: {};
+	const changes = { ...untouched, ...resolution.mine };
+	if (op && Object.keys(changes).length > 0) {
+		if (op.type === 'updateProblem') {
+			queue[0].op = { ...op, changes: changes as ProblemChanges };
+		} else if (op.type === 'updateCategory') {
+			queue[0].op = { ...op, changes };
+		}
+	} else if (op) {
+		queue.shift();
+	}
+	persistQueue();
+}
+
+export function getPendingConflict(): SyncConflict | null {
+	return pendingConflict?.conflict ?? null;
+}
+
+// Settle the conflict the queue is paused on and carry on syncing
+export function resolvePendingConflict(choice: ConflictChoice): void {
+	if (!pendingConflict) return;
+	const { entryId, conflict } = pendingConflict;
+	const entry = queue.find((e) => e.id === entryId);
+	setPendingConflict(null);
+	if (entry) {
+		applyResolution(entry, conflict, resolveConflict(conflict, choice, entry.changedAt));
+	}
+	flushOperations();
+}
+
+if (typeof window !== 'undefined') {
+	window.addEventListener('online', () => {
+		updateSyncState(failedState() ?? { status: 'idle' });
+		flushOperations();
+	});
+	window.addEventListener('offline', () => updateSyncState({ status: 'offline' }));
+}
+
+// Changes held while signed out go through once the account is back
+onSessionChange((session) => {
+	if (session.user && queue.length > 0) flushOperations();
+});
+
+// Pick up operations left over from the previous visit
+if (queue.length > 0) {
+	scheduleFlush(FLUSH_DEBOUNCE_MS);
+}
+
+// --- Local application of operations ---
+
+export function applyOperationToCategories(categories: Category[], op: Operation): Category[] {
+	switch (op.type) {
+		case 'createCategory':
+			if (categories.some((c) => c.id === op.categoryId)) return categories;
+			return [
+				...categories,
+				{ id: op.categoryId, title: op.title, parentId: op.parentId ?? null, ...(op.personal ? { personal: true } : {}), problems: [] },
+			];
+		case 'updateCategory':
+			return categories.map((c) => (c.id === op.categoryId ? { ...c, ...op.changes } : c));
+		case 'deleteCategory': {
+			// Sub-categories go with their parent
+			const removed = new Set(subtreeIds(categories, op.categoryId));
+			return categories.filter((c) => !removed.has(c.id));
+		}
+		case 'reorderCategories': {
+			// Positions count among categories of the operation's kind (personal or
+			// catalog); the other kind keeps its places in the array
+			const sameKind = (c: Category) => !!c.personal === !!op.personal;
+			const indexById = new Map(categories.filter(sameKind).map((c, i) => [c.id, i]));
+			const parentById = new Map<string, string | null>();
+			op.order.forEach(({ categoryId, orderIndex, parentId }) => {
+				indexById.set(categoryId, orderIndex);
+				if (parentId !== undefined) parentById.set(categoryId, parentId);
+			});
+			const reordered = categories
+				.filter(sameKind)
+				.map((c) => (parentById.has(c.id) ? { ...c, parentId: parentById.get(c.id) } : c))
+				.sort((a, b) => indexById.get(a.id)! - indexById.get(b.id)!);
+			let next = 0;
+			return categories.map((c) => (sameKind(c) ? reordered[next++] : c));
+		}
+		case 'addProblem':
+			return categories.map((c) =>
+				c.id === op.categoryId && !c.problems.some((p) => p.id === op.problem.id)
+					? { ...c, problems: [...c.problems, op.problem] }
+					: c
+			);
+		case 'updateProblem':
+			return categories.map((c) =>
+				c.id !== op.categoryId
+					? c
+					: { ...c, problems: c.problems.map((p) => (p.id === op.problemId ? { ...p, ...op.changes } : p)) }
+			);
+		case 'deleteProblem':
+			return categories.map((c) =>
+				c.id === op.categoryId ? { ...c, problems: c.problems.filter((p) => p.id !== op.problemId) } : c
+			);
+		case 'mergeProblems': {
+			const removed = new Set(op.merged.map((m) => m.problemId));
+			return categories.map((c) => ({
+				...c,
+				problems: c.problems
+					.filter((p) => !removed.has(p.id))
+					.map((p) => (c.id === op.categoryId && p.id === op.problemId ? { ...p, ...op.changes } : p)),
+			}));
+		}
+		case 'recordAttempt':
+		case 'recordNoteRevision':
+			// History lives outside the catalog
+			return categories;
+		case 'reorderProblems': {
+			// Lift every listed problem out, then drop each in at its new position, lowest first
+			const moved = new Map<string, Problem>();
+			const remaining = categories.map((c) => ({
+				...c,
+				problems: c.problems.filter((p) => {
+					if (!op.order.some((entry) => entry.problemId === p.id)) return true;
+					moved.set(p.id, p);
+					return false;
+				}),
+			}));
+			const placements = [...op.order].filter((entry) => moved.has(entry.problemId)).sort((a, b) => a.orderIndex - b.orderIndex);
+			return remaining.map((c) => {
+				const problems = [...c.problems];
+				placements
+					.filter((entry) => entry.categoryId === c.id)
+					.forEach((entry) => problems.splice(Math.min(entry.orderIndex, problems.length), 0, moved.get(entry.problemId)!));
+				return problems.length === c.problems.length ? c : { ...c, problems };
+			});
+		}
+	}
+}
+
+// Replay operations that have not reached the server yet on top of freshly loaded data
+export function applyPendingOperations(categories: Category[]): Category[] {
+	return currentEntries().reduce((acc, entry) => applyOperationToCategories(acc, entry.op), categories);
+}
+
+export function applyLocalPatch(categories: Category[], patch: LocalPatch): Category[] {
+	return categories.map((c) => {
+		if (c.id !== patch.categoryId) return c;
+		if (!patch.problemId) return { ...c, ...(patch.changes as Partial<Category>) };
+		return {
+			...c,
+			problems: c.problems.map((p) => (p.id === patch.problemId ? { ...p, ...(patch.changes as Partial<Problem>) } : p)),
+		};
+	});
+}
+
+const NON_CHANGE_KEYS = new Set<keyof Problem>(['id', 'updatedAt', 'progressUpdatedAt']);
+
+// Arrays (tags) are rebuilt on every edit, so compare them by content
+function sameValue(a: unknown, b: unknown): boolean {
+	if (Array.isArray(a) || Array.isArray(b)) {
+		const x = (a ?? []) as unknown[];
+		const y = (b ?? []) as unknown[];
+		return x.length === y.length && x.every((value, i) => value === y[i]);
+	}
+	return a === b;
+}
+
+export function diffProblem(before: Problem, after: Problem): ProblemChanges {
+	const changes: ProblemChanges = {};
+	(Object.keys(after) as (keyof Problem)[]).forEach((key) => {
+		if (!NON_CHANGE_KEYS.has(key) && !sameValue(after[key], before[key])) {
+			(changes as Record<string, unknown>)[key] = after[key];
+		}
+	});
+	return changes;
+}
@@ -1,18 +1,189 @@
+import { SolutionLanguage } from './highlight';
+import { Platform } from './platforms';
+
+export type { Platform };
+
 export type Difficulty = 'Easy' | 'Medium' | 'Hard';
-export type Platform = 'GFG' | 'LeetCode' | 'HackerRank' | 'Codeforces';
+export type ProblemStatus = 'todo' | 'attempted' | 'solved' | 'solved-with-hint' | 'needs-revisit';
 
 export interface Problem {
 	id: string;
 	title: string;
 	url: string;
 	platform: Platform;
+	// The problem's id on its platform, e.g. leetcode:two-sum, suggested from its link
+	externalId?: string;
 	difficulty: Difficulty;
-	completed: boolean;
+	status: ProblemStatus;
 	note?: string;
+	// Spaced-repetition schedule, set once the problem is solved; null once it is reset
+	review?: ReviewSchedule | null;
+	// The user's own solution snippets, in the order they were added
+	solutions?: Solution[];
+	// Topic tags such as "two pointers"; any number per problem, shared across categories
+	tags?: string[];
+	// Server versions (updated_at) this record was loaded at, used to detect conflicting edits
+	updatedAt?: string;
+	progressUpdatedAt?: string;
 }
 
 export interface Category {
 	id: string;
 	title: string;
+	// The category this one is nested in; null or missing at the top level. The array
+	// holding all categories is flat, with siblings in display order.
+	parentId?: string | null;
+	// Private to the signed-in user, who may always change it. Problems in a personal
+	// category keep their progress on the problem itself rather than as an overlay.
+	personal?: boolean;
 	problems: Problem[];
-} 
\ No newline at end of file
+	updatedAt?: string;
+}
+
+export interface ReviewSchedule {
+	// Local date (YYYY-MM-DD) the problem is next due for revision
+	due: string;
+	intervalDays: number;
+	// SM-2 easiness factor, at least 1.3
+	ease: number;
+	// Successful reviews in a row
+	repetitions: number;
+	lastReviewedAt?: string;
+}
+
+export interface Solution {
+	id: string;
+	language: SolutionLanguage;
+	code: string;
+	// Free-form complexity annotations such as "O(n log n)"
+	timeComplexity?: string;
+	spaceComplexity?: string;
+}
+
+// One go at a problem, from opening it to setting the status it ended in
+export interface Attempt {
+	id: string;
+	problemId: string;
+	startedAt: string;
+	endedAt: string;
+	outcome: ProblemStatus;
+	// Known when the problem was opened from the app before the status changed
+	timeSpentSeconds?: number;
+}
+
+// A note as it was before an edit replaced it
+export interface NoteRevision {
+	id: string;
+	problemId: string;
+	note: string;
+	// When the edit that replaced it was made
+	savedAt: string;
+}
+
+// Fields of a problem that belong to a user's progress rather than the catalog
+export type ProgressField = 'status' | 'note' | 'review' | 'solutions';
+
+// Bookkeeping fields that are never sent as part of a change
+export type VersionField = 'updatedAt' | 'progressUpdatedAt';
+
+export type ProblemChanges = Partial<Omit<Problem, 'id' | VersionField>>;
+
+// Typed mutations recorded by the app and replayed against the remote store.
+// personal marks operations on the user's own categories and problems, which are
+// stored apart from the shared catalog.
+export type Operation =
+	| { type: 'createCategory'; categoryId: string; title: string; orderIndex: number; parentId?: string | null; personal?: boolean }
+	| { type: 'updateCategory'; categoryId: string; changes: Partial<Pick<Category, 'title'>>; baseVersion?: string; personal?: boolean }
+	| { type: 'deleteCategory'; categoryId: string; personal?: boolean }
+	// A parentId on an entry moves that category under another one (null: to the top level)
+	| { type: 'reorderCategories'; order: { categoryId: string; orderIndex: number; parentId?: string | null }[]; personal?: boolean }
+	// orderIndex is missing on operations queued before problems had an order
+	| { type: 'addProblem'; categoryId: string; problem: Problem; orderIndex?: number; personal?: boolean }
+	| {
+		type: 'updateProblem';
+		categoryId: string;
+		problemId: string;
+		changes: ProblemChanges;
+		baseVersion?: string;
+		baseProgressVersion?: string;
+		personal?: boolean;
+	}
+	| { type: 'deleteProblem'; categoryId: string; problemId: string; personal?: boolean }
+	// Each entry says where a problem ends up; a new categoryId moves it to that category
+	| { type: 'reorderProblems'; order: { problemId: string; categoryId: string; orderIndex: number }[]; personal?: boolean }
+	// Folds duplicate catalog problems into one: the others are deleted, and every user's
+	// progress on them joins theirs on the kept problem (changes: this user's, for display)
+	| {
+		type: 'mergeProblems';
+		categoryId: string;
+		problemId: string;
+		changes: ProblemChanges;
+		merged: { categoryId: string; problemId: string }[];
+	}
+	// Attempts and earlier note versions are only ever appended to the user's history
+	| { type: 'recordAttempt'; attempt: Attempt }
+	| { type: 'recordNoteRevision'; revision: NoteRevision };
+
+export interface QueuedOperation {
+	id: string;
+	op: Operation;
+	queuedAt: number;
+	// Time of the latest edit folded into this operation
+	changedAt: number;
+	attempts: number;
+	// Account that made the change; missing for changes made without signing in
+	userId?: string;
+	// Catalog the change was made on; missing on operations queued before it was recorded
+	catalogId?: string | null;
+	// Why the backend last rejected it, once it has been parked
+	error?: string;
+}
+
+// The server version a write produced, to be adopted by the local record
+export interface RecordVersion {
+	categoryId: string;
+	problemId?: string;
+	field: VersionField;
+	version: string;
+}
+
+// A write that was rejected because the server row changed since it was loaded
+export interface SyncConflict {
+	kind: 'category' | 'problem' | 'progress';
+	categoryId: string;
+	problemId?: string;
+	// Values we tried to write, and the server's current values, keyed by our field names
+	local: Record<string, unknown>;
+	server: Record<string, unknown>;
+	serverVersion: string;
+}
+
+export interface ApplyResult {
+	versions: RecordVersion[];
+	conflict?: SyncConflict;
+}
+
+export type ConflictPolicy = 'last-writer-wins' | 'union-notes' | 'ask';
+
+// A row-level change pushed by the backend, applied as a patch to local state
+export type RemoteChange =
+	| {
+		type: 'categoryUpsert';
+		category: { id: string; title: string; orderIndex: number; parentId?: string | null; personal?: boolean; updatedAt?: string };
+	}
+	| { type: 'categoryDelete'; categoryId: string }
+	// A personal problem's row carries its progress; a catalog row never does
+	| { type: 'problemUpsert'; categoryId: string; orderIndex?: number; problem: Omit<Problem, 'progressUpdatedAt'>; personal?: boolean }
+	| { type: 'problemDelete'; problemId: string }
+	| {
+		type: 'progressUpsert';
+		problemId: string;
+		status: ProblemStatus;
+		note: string;
+		review: ReviewSchedule | null;
+		solutions: Solution[];
+		updatedAt?: string;
+	}
+	| { type: 'progressDelete'; problemId: string }
+	// Backends without row-level events hand over the whole dataset
+	| { type: 'snapshot'; categories: Category[] };
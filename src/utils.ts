@@ -1,17 +1,91 @@
-import { Category, Difficulty, Platform, Problem } from './types';
+import { Category, Difficulty, Problem, ProblemStatus, ProgressField } from './types';
+import { isDone } from './status';
+
+// Fields of a problem stored with the user's progress rather than in the catalog
+export const PROGRESS_FIELDS: ProgressField[] = ['status', 'note', 'review', 'solutions'];
 
 export function generateId(prefix: string = 'id'): string {
 	return `${prefix}_${Math.random().toString(36).slice(2, 10)}`;
 }
 
-export function countCompleted(problems: Problem[]): number {
-	return problems.filter((p) => p.completed).length;
+export function countCompleted(problems: Problem[], counted: ProblemStatus[]): number {
+	return problems.filter((p) => isDone(p, counted)).length;
 }
 
 export function flattenProblems(categories: Category[]): Problem[] {
 	return categories.flatMap((c) => c.problems);
 }
 
+// Categories directly under a parent (null: the top level), in display order. A category
+// whose parent is missing is shown at the top level rather than lost.
+export function childCategories(categories: Category[], parentId: string | null): Category[] {
+	const ids = new Set(categories.map((c) => c.id));
+	return categories.filter((c) => {
+		const parent = c.parentId && ids.has(c.parentId) ? c.parentId : null;
+		return parent === parentId;
+	});
+}
+
+// A category's id followed by the ids of everything nested under it
+export function subtreeIds(categories: Category[], categoryId: string): string[] {
+	const ids = [categoryId];
+	for (let i = 0; i < ids.length; i++) {
+		categories.forEach((c) => {
+			if (c.parentId === ids[i] && !ids.includes(c.id)) ids.push(c.id);
+		});
+	}
+	return ids;
+}
+
+// Every problem in a category and its sub-categories, for rolled-up progress
+export function subtreeProblems(categories: Category[], categoryId: string): Problem[] {
+	const ids = new Set(subtreeIds(categories, categoryId));
+	return categories.filter((c) => ids.has(c.id)).flatMap((c) => c.problems);
+}
+
+// "Arrays › Easy" for a nested category
+export function categoryPath(categories: Category[], categoryId: string): string {
+	const titles: string[] = [];
+	const seen = new Set<string>();
+	let current = categories.find((c) => c.id === categoryId);
+	while (current && !seen.has(current.id)) {
+		seen.add(current.id);
+		titles.unshift(current.title);
+		current = current.parentId ? categories.find((c) => c.id === current!.parentId) : undefined;
+	}
+	return titles.join(' › ');
+}
+
+// Tidy tags for storage: trimmed, inner whitespace collapsed, empty and duplicate
+// (ignoring case) tags dropped. The first spelling of a tag wins.
+export function normalizeTags(tags: string[]): string[] {
+	const seen = new Set<string>();
+	const result: string[] = [];
+	tags.forEach((raw) => {
+		const tag = raw.trim().replace(/\s+/g, ' ');
+		const key = tag.toLowerCase();
+		if (!tag || seen.has(key)) return;
+		seen.add(key);
+		result.push(tag);
+	});
+	return result;
+}
+
+// Tags typed as "two pointers, sliding window"
+export function parseTags(input: string): string[] {
+	return normalizeTags(input.split(','));
+}
+
+export function hasTag(problem: Problem, tag: string): boolean {
+	const key = tag.toLowerCase();
+	return (problem.tags ?? []).some((t) => t.toLowerCase() === key);
+}
+
+// Every tag in use, alphabetically
+export function collectTags(categories: Category[]): string[] {
+	return normalizeTags(flattenProblems(categories).flatMap((p) => p.tags ?? [])).sort((a, b) => a.localeCompare(b));
+}
+
 export function difficultyOrder(d: Difficulty): number {
 	switch (d) {
 		case 'Easy':
@@ -23,6 +97,39 @@ export function difficultyOrder(d: Difficulty): number {
 	}
 }
 
-export function platformLabel(p: Platform): string {
-	return p === 'GFG' ? 'GfG' : 'LeetCode';
-} 
\ No newline at end of file
+export interface DiffLine {
+	kind: 'same' | 'added' | 'removed';
+	text: string;
+}
+
+// Line-by-line difference between two texts, from their longest common subsequence of
+// lines. Notes are capped at 1000 lines, so the table stays small.
+export function diffLines(before: string, after: string): DiffLine[] {
+	const a = before.split(/\r?\n/);
+	const b = after.split(/\r?\n/);
+	// common[i][j]: length of the longest common subsequence of a[i..] and b[j..]
+	const common = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+		}
+	}
+
+	const result: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length && j < b.length) {
+		if (a[i] === b[j]) {
+			result.push({ kind: 'same', text: a[i] });
+			i++;
+			j++;
+		} else if (common[i + 1][j] >= common[i][j + 1]) {
+			result.push({ kind: 'removed', text: a[i++] });
+		} else {
+			result.push({ kind: 'added', text: b[j++] });
+		}
+	}
+	a.slice(i).forEach((text) => result.push({ kind: 'removed', text }));
+	b.slice(j).forEach((text) => result.push({ kind: 'added', text }));
+	return result;
+}